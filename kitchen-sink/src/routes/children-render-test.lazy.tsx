@@ -6,10 +6,13 @@ import {
   getDisplayName,
   isCompositeFiber,
   type Fiber,
+  type RenderPhase,
 } from 'bippy'
 
 const visit = createFiberVisitor({
-  onRender(fiber: Fiber) {
+  onRender(fiber: Fiber, phase: RenderPhase) {
+    // unmount, hide and show aren't renders
+    if (phase !== 'mount' && phase !== 'update') return
     if (isCompositeFiber(fiber)) {
       console.count(`recieved ${getDisplayName(fiber.type)}`)
     }
@@ -6,10 +6,13 @@ import {
   getDisplayName,
   type Fiber,
   type RenderHandler,
+  type RenderPhase,
 } from 'bippy'
 
 const visit = createFiberVisitor({
-  onRender(fiber: Fiber) {
+  onRender(fiber: Fiber, phase: RenderPhase) {
+    // unmount, hide and show aren't renders
+    if (phase !== 'mount' && phase !== 'update') return
     console.log(fiber)
     console.count(`recieved ${getDisplayName(fiber.type)}`)
   },
@@ -4,28 +4,38 @@
 import type * as React from 'react';
 import {
   BIPPY_INSTRUMENTATION_STRING,
+  getCommittedUnmounts,
   getRDTHook,
   hasRDTHook,
   isReactRefresh,
   isRealReactDevtools,
+  registerFiberRoot,
+  subscribeToCommits,
+  UNKNOWN_RENDERER_ID,
 } from './rdt-hook.js';
 import type {
+  CommitSubscription,
   ContextDependency,
   Effect,
   Fiber,
   FiberRoot,
   MemoizedState,
+  Props,
+  ReactDevToolsGlobalHook,
   ReactRenderer,
 } from './types.js';
 
 // https://github.com/facebook/react/blob/main/packages/react-reconciler/src/ReactWorkTags.js
+// these match the latest React, use getFiberTagName for older renderers
 export const FunctionComponentTag = 0;
 export const ClassComponentTag = 1;
 export const HostRootTag = 3;
+export const HostPortalTag = 4;
 export const HostComponentTag = 5;
 export const HostTextTag = 6;
 export const FragmentTag = 7;
 export const ContextConsumerTag = 9;
+export const ContextProviderTag = 10;
 export const ForwardRefTag = 11;
 export const SuspenseComponentTag = 13;
 export const MemoComponentTag = 14;
@@ -36,6 +46,202 @@ export const LegacyHiddenComponentTag = 23;
 export const HostHoistableTag = 26;
 export const HostSingletonTag = 27;
 
+export type FiberTagName =
+  | 'FunctionComponent'
+  | 'ClassComponent'
+  | 'IndeterminateComponent'
+  | 'HostRoot'
+  | 'HostPortal'
+  | 'HostComponent'
+  | 'HostText'
+  | 'Fragment'
+  | 'Mode'
+  | 'ContextConsumer'
+  | 'ContextProvider'
+  | 'ForwardRef'
+  | 'Profiler'
+  | 'SuspenseComponent'
+  | 'MemoComponent'
+  | 'SimpleMemoComponent'
+  | 'LazyComponent'
+  | 'IncompleteClassComponent'
+  | 'DehydratedSuspenseComponent'
+  | 'DehydratedFragment'
+  | 'SuspenseListComponent'
+  | 'FundamentalComponent'
+  | 'ScopeComponent'
+  | 'Block'
+  | 'OffscreenComponent'
+  | 'LegacyHiddenComponent'
+  | 'CacheComponent'
+  | 'TracingMarkerComponent'
+  | 'HostHoistable'
+  | 'HostSingleton'
+  | 'IncompleteFunctionComponent'
+  | 'Throw'
+  | 'ViewTransitionComponent'
+  | 'ActivityComponent';
+
+type FiberTagTable = Partial<Record<number, FiberTagName>>;
+
+// https://github.com/facebook/react/blob/v16.4.2/packages/shared/ReactTypeOfWork.js
+const REACT_16_LEGACY_TAGS: FiberTagTable = {
+  0: 'IndeterminateComponent',
+  1: 'FunctionComponent',
+  2: 'ClassComponent',
+  3: 'HostRoot',
+  4: 'HostPortal',
+  5: 'HostComponent',
+  6: 'HostText',
+  10: 'Fragment',
+  11: 'Mode',
+  12: 'ContextConsumer',
+  13: 'ContextProvider',
+  14: 'ForwardRef',
+  15: 'Profiler',
+  16: 'SuspenseComponent',
+};
+
+const SHARED_TAGS: FiberTagTable = {
+  0: 'FunctionComponent',
+  1: 'ClassComponent',
+  2: 'IndeterminateComponent',
+  3: 'HostRoot',
+  4: 'HostPortal',
+  5: 'HostComponent',
+  6: 'HostText',
+  7: 'Fragment',
+  8: 'Mode',
+  9: 'ContextConsumer',
+  10: 'ContextProvider',
+  11: 'ForwardRef',
+  12: 'Profiler',
+  13: 'SuspenseComponent',
+  14: 'MemoComponent',
+  15: 'SimpleMemoComponent',
+  16: 'LazyComponent',
+  17: 'IncompleteClassComponent',
+};
+
+// https://github.com/facebook/react/blob/v16.14.0/packages/react-reconciler/src/ReactWorkTags.js
+const REACT_16_TAGS: FiberTagTable = {
+  ...SHARED_TAGS,
+  18: 'DehydratedSuspenseComponent',
+  19: 'SuspenseListComponent',
+  20: 'FundamentalComponent',
+  21: 'ScopeComponent',
+};
+
+// https://github.com/facebook/react/blob/v17.0.2/packages/react-reconciler/src/ReactWorkTags.js
+const REACT_17_TAGS: FiberTagTable = {
+  ...SHARED_TAGS,
+  18: 'DehydratedFragment',
+  19: 'SuspenseListComponent',
+  20: 'FundamentalComponent',
+  21: 'ScopeComponent',
+  22: 'Block',
+  23: 'OffscreenComponent',
+  24: 'LegacyHiddenComponent',
+};
+
+// https://github.com/facebook/react/blob/v18.3.1/packages/react-reconciler/src/ReactWorkTags.js
+const REACT_18_TAGS: FiberTagTable = {
+  ...SHARED_TAGS,
+  18: 'DehydratedFragment',
+  19: 'SuspenseListComponent',
+  21: 'ScopeComponent',
+  22: 'OffscreenComponent',
+  23: 'LegacyHiddenComponent',
+  24: 'CacheComponent',
+  25: 'TracingMarkerComponent',
+};
+
+// https://github.com/facebook/react/blob/main/packages/react-reconciler/src/ReactWorkTags.js
+const REACT_19_TAGS: FiberTagTable = {
+  ...REACT_18_TAGS,
+  2: undefined,
+  26: 'HostHoistable',
+  27: 'HostSingleton',
+  28: 'IncompleteFunctionComponent',
+  29: 'Throw',
+  30: 'ViewTransitionComponent',
+  31: 'ActivityComponent',
+};
+
+const fiberTagTableCache = new Map<string, FiberTagTable>();
+
+const getFiberTagTable = (version: string | undefined): FiberTagTable => {
+  if (!version) return REACT_19_TAGS;
+  let table = fiberTagTableCache.get(version);
+  if (table) return table;
+  const [major, minor] = parseVersion(version);
+  if (!major || major >= 19) table = REACT_19_TAGS;
+  else if (major === 18) table = REACT_18_TAGS;
+  else if (major === 17) table = REACT_17_TAGS;
+  else if (major === 16 && minor >= 6) table = REACT_16_TAGS;
+  else table = REACT_16_LEGACY_TAGS;
+  fiberTagTableCache.set(version, table);
+  return table;
+};
+
+// the table shared by every renderer, or null if they disagree. Keyed on the
+// versions, since a renderer can be replaced under the same ID
+let sharedFiberTagTable: {
+  versions: string;
+  table: FiberTagTable | null;
+} | null = null;
+
+const getSharedFiberTagTable = (renderers: Map<number, ReactRenderer>) => {
+  let versions = '';
+  for (const renderer of renderers.values()) {
+    versions += `${renderer.version},`;
+  }
+  if (sharedFiberTagTable?.versions === versions) {
+    return sharedFiberTagTable.table;
+  }
+  let table: FiberTagTable | null = REACT_19_TAGS;
+  let isFirst = true;
+  for (const renderer of renderers.values()) {
+    const rendererTable = getFiberTagTable(renderer.version);
+    if (!isFirst && table !== rendererTable) {
+      table = null;
+      break;
+    }
+    table = rendererTable;
+    isFirst = false;
+  }
+  sharedFiberTagTable = { versions, table };
+  return table;
+};
+
+const getFiberTagTableForFiber = (fiber: Fiber) => {
+  // don't install the hook just to read a tag
+  if (!hasRDTHook()) return REACT_19_TAGS;
+  const table = getSharedFiberTagTable(
+    globalThis.__REACT_DEVTOOLS_GLOBAL_HOOK__.renderers,
+  );
+  // renderers disagree, so find the one that committed the fiber
+  return table ?? getFiberTagTable(getRendererVersionFromFiber(fiber));
+};
+
+/**
+ * Returns the name of the fiber's work tag, e.g. `'HostComponent'` or `'SuspenseListComponent'`. Tag numbers changed across React versions, so they are resolved with the table of the renderer that owns the fiber (or `version` if given).
+ */
+export const getFiberTagName = (
+  fiber: Fiber,
+  version?: string,
+): FiberTagName | null => {
+  const table =
+    version === undefined
+      ? getFiberTagTableForFiber(fiber)
+      : getFiberTagTable(version);
+  return table[fiber.tag] ?? null;
+};
+
+// e.g. React 16 has no OffscreenComponent to wrap Suspense children in
+const hasFiberTag = (fiber: Fiber, name: FiberTagName) =>
+  Object.values(getFiberTagTableForFiber(fiber)).includes(name);
+
 export const CONCURRENT_MODE_NUMBER = 0xeacf;
 export const ELEMENT_TYPE_SYMBOL_STRING = 'Symbol(react.element)';
 export const TRANSITIONAL_ELEMENT_TYPE_SYMBOL_STRING =
@@ -53,6 +259,7 @@ const ChildDeletion = 0b10000;
 const ContentReset = 0b100000;
 const Snapshot = 0b10000000000;
 const Visibility = 0b10000000000000;
+
 const MutationMask =
   Placement |
   Update |
@@ -98,12 +305,10 @@ export const isValidFiber = (fiber: unknown): fiber is Fiber =>
  * @see https://reactnative.dev/architecture/glossary#host-view-tree-and-host-view
  */
 export const isHostFiber = (fiber: Fiber) => {
-  switch (fiber.tag) {
-    case HostComponentTag:
-    // @ts-expect-error: it exists
-    case HostHoistableTag:
-    // @ts-expect-error: it exists
-    case HostSingletonTag:
+  switch (getFiberTagName(fiber)) {
+    case 'HostComponent':
+    case 'HostHoistable':
+    case 'HostSingleton':
       return true;
     default:
       return typeof fiber.type === 'string';
@@ -115,12 +320,12 @@ export const isHostFiber = (fiber: Fiber) => {
  * @see https://reactnative.dev/architecture/glossary#react-composite-components
  */
 export const isCompositeFiber = (fiber: Fiber) => {
-  switch (fiber.tag) {
-    case FunctionComponentTag:
-    case ClassComponentTag:
-    case SimpleMemoComponentTag:
-    case MemoComponentTag:
-    case ForwardRefTag:
+  switch (getFiberTagName(fiber)) {
+    case 'FunctionComponent':
+    case 'ClassComponent':
+    case 'SimpleMemoComponent':
+    case 'MemoComponent':
+    case 'ForwardRef':
       return true;
     default:
       return false;
@@ -230,6 +435,387 @@ export const traverseEffects = (
   return false;
 };
 
+export type EffectKind = 'passive' | 'layout' | 'insertion';
+
+export interface FiberEffect {
+  /**
+   * Position of the effect in the component, in call order.
+   */
+  index: number;
+  /**
+   * `passive` for `useEffect`, `layout` for `useLayoutEffect` and `useImperativeHandle`, `insertion` for `useInsertionEffect`.
+   */
+  kind: EffectKind | null;
+  /**
+   * `true` if the effect runs in this commit.
+   */
+  willFire: boolean;
+  deps: unknown[] | null;
+  prevDeps: unknown[] | null;
+  /**
+   * The indices of the deps that changed since the last render.
+   */
+  changedDeps: number[];
+  /**
+   * `true` if the effect has no deps array, so it runs after every render.
+   */
+  isMissingDeps: boolean;
+  effect: Effect;
+}
+
+const getEffectList = (fiber: Fiber | null): Effect[] => {
+  const effects: Effect[] = [];
+  const lastEffect = (
+    fiber?.updateQueue as { lastEffect?: Effect | null } | null | undefined
+  )?.lastEffect;
+  if (!lastEffect) return effects;
+  // the list is circular, lastEffect.next is the first effect
+  let effect = lastEffect.next;
+  while (effect) {
+    effects.push(effect);
+    if (effect === lastEffect) break;
+    effect = effect.next;
+  }
+  return effects;
+};
+
+const getEffectKind = (
+  tag: number,
+  tags: HookEffectTags,
+): EffectKind | null => {
+  if (tag & tags.Passive) return 'passive';
+  if (tag & tags.Layout) return 'layout';
+  if (tag & tags.Insertion) return 'insertion';
+  return null;
+};
+
+/**
+ * Returns the effects of a function component {@link Fiber} in call order, decoded from their tags, with the deps that changed since the last render. `version` defaults to the React version of the renderer that committed the fiber's root.
+ *
+ * @example
+ * for (const effect of getEffects(fiber)) {
+ *   if (effect.willFire && effect.isMissingDeps) {
+ *     console.log(`effect #${effect.index} runs on every render`);
+ *   }
+ * }
+ */
+export const getEffects = (
+  fiber: Fiber,
+  version = getRendererVersionFromFiber(fiber),
+): FiberEffect[] => {
+  const tags = getBitTables(version).hookEffectTags;
+  const prevEffects = getEffectList(fiber.alternate);
+  return getEffectList(fiber).map((effect, index) => {
+    const deps = Array.isArray(effect.deps) ? effect.deps : null;
+    const prevEffect = prevEffects[index];
+    const prevDeps = Array.isArray(prevEffect?.deps) ? prevEffect.deps : null;
+    const changedDeps: number[] = [];
+    if (deps && prevDeps) {
+      const length = Math.max(deps.length, prevDeps.length);
+      for (let i = 0; i < length; i++) {
+        if (!Object.is(deps[i], prevDeps[i])) changedDeps.push(i);
+      }
+    }
+    return {
+      index,
+      kind: getEffectKind(effect.tag, tags),
+      willFire: (effect.tag & tags.HasEffect) !== 0,
+      deps,
+      prevDeps,
+      changedDeps,
+      isMissingDeps: deps === null,
+      effect,
+    };
+  });
+};
+
+export type HookKind =
+  | 'state'
+  | 'reducer'
+  | 'ref'
+  | 'memo'
+  | 'callback'
+  | 'effect'
+  | 'layout-effect'
+  | 'insertion-effect'
+  | 'imperative-handle'
+  | 'id'
+  | 'transition'
+  | 'deferred-value'
+  | 'sync-external-store'
+  | 'action-state'
+  | 'optimistic'
+  | 'unknown';
+
+interface BaseFiberHook {
+  /**
+   * Position of the hook in the component, in call order.
+   */
+  index: number;
+  /**
+   * The hook that was called, e.g. `useState`. Only in development builds.
+   */
+  name: string | null;
+  value: unknown;
+  /**
+   * `undefined` on mount.
+   */
+  prevValue: unknown;
+  /**
+   * For effect hooks, `true` if the deps changed (or there are none), since React creates a new effect on every render.
+   */
+  hasChanged: boolean;
+  /**
+   * The first node of the hook in the `memoizedState` list.
+   */
+  node: MemoizedState;
+}
+
+export type FiberHook =
+  | (BaseFiberHook & {
+      kind: Exclude<HookKind, 'memo' | 'callback' | EffectHookKind>;
+    })
+  | (BaseFiberHook & {
+      kind: 'memo' | 'callback' | EffectHookKind;
+      deps: unknown[] | null;
+      prevDeps: unknown[] | null;
+    });
+
+type EffectHookKind =
+  | 'effect'
+  | 'layout-effect'
+  | 'insertion-effect'
+  | 'imperative-handle';
+
+// how many nodes each hook adds to the memoizedState list, hooks that
+// aren't listed add one
+const HOOK_NODE_COUNTS: Record<string, number> = {
+  useContext: 0,
+  use: 0,
+  useDebugValue: 0,
+  useMemoCache: 0,
+  useHostTransitionStatus: 0,
+  useFormStatus: 0,
+  useTransition: 2,
+  useSyncExternalStore: 2,
+  useActionState: 3,
+  useFormState: 3,
+};
+
+const HOOK_KINDS: Record<string, HookKind> = {
+  useState: 'state',
+  useReducer: 'reducer',
+  useRef: 'ref',
+  useMemo: 'memo',
+  useCallback: 'callback',
+  useEffect: 'effect',
+  useLayoutEffect: 'layout-effect',
+  useInsertionEffect: 'insertion-effect',
+  useImperativeHandle: 'imperative-handle',
+  useId: 'id',
+  useTransition: 'transition',
+  useDeferredValue: 'deferred-value',
+  useSyncExternalStore: 'sync-external-store',
+  useActionState: 'action-state',
+  useFormState: 'action-state',
+  useOptimistic: 'optimistic',
+};
+
+const isEffectHookState = (state: unknown): state is Effect =>
+  typeof state === 'object' &&
+  state !== null &&
+  'tag' in state &&
+  'create' in state &&
+  'deps' in state;
+
+const isRefHookState = (state: unknown): state is { current: unknown } =>
+  typeof state === 'object' &&
+  state !== null &&
+  Object.keys(state).length === 1 &&
+  'current' in state;
+
+const isMemoHookState = (
+  state: unknown,
+): state is [unknown, unknown[] | null] =>
+  Array.isArray(state) &&
+  state.length === 2 &&
+  (state[1] === null || Array.isArray(state[1]));
+
+// Production builds have no _debugHookTypes, so guess from the shape of the
+// nodes. useDeferredValue and useImperativeHandle can't be told apart from
+// other hooks and useReducer reads as useState.
+const guessHookKind = (
+  node: MemoizedState,
+  effectTags: HookEffectTags,
+): { kind: HookKind; nodeCount: number } => {
+  const state = node.memoizedState;
+  const queue = node.queue as Record<string, unknown> | null | undefined;
+  if (queue) {
+    if ('getSnapshot' in queue) {
+      return { kind: 'sync-external-store', nodeCount: 2 };
+    }
+    const actionQueue = node.next?.next?.queue;
+    if (
+      typeof actionQueue === 'object' &&
+      actionQueue !== null &&
+      'action' in actionQueue
+    ) {
+      return { kind: 'action-state', nodeCount: 3 };
+    }
+    if (!node.next?.queue && typeof node.next?.memoizedState === 'function') {
+      return { kind: 'transition', nodeCount: 2 };
+    }
+    return { kind: 'state', nodeCount: 1 };
+  }
+  if (isEffectHookState(state)) {
+    if (state.tag & effectTags.Insertion) {
+      return { kind: 'insertion-effect', nodeCount: 1 };
+    }
+    if (state.tag & effectTags.Layout) {
+      return { kind: 'layout-effect', nodeCount: 1 };
+    }
+    return { kind: 'effect', nodeCount: 1 };
+  }
+  if (isMemoHookState(state)) {
+    return {
+      kind: typeof state[0] === 'function' ? 'callback' : 'memo',
+      nodeCount: 1,
+    };
+  }
+  if (isRefHookState(state)) return { kind: 'ref', nodeCount: 1 };
+  if (typeof state === 'string' && /^[:«].*[:»]$/.test(state)) {
+    return { kind: 'id', nodeCount: 1 };
+  }
+  return { kind: 'unknown', nodeCount: 1 };
+};
+
+const getHookValue = (kind: HookKind, node: MemoizedState | null) => {
+  const state = node?.memoizedState;
+  switch (kind) {
+    case 'ref':
+      return (state as { current: unknown } | undefined)?.current;
+    case 'memo':
+    case 'callback':
+      return (state as [unknown, unknown] | undefined)?.[0];
+    default:
+      return state;
+  }
+};
+
+const getHookDeps = (kind: HookKind, node: MemoizedState | null) => {
+  const state = node?.memoizedState;
+  if (kind === 'memo' || kind === 'callback') {
+    return isMemoHookState(state) ? state[1] : null;
+  }
+  return isEffectHookState(state) ? state.deps : null;
+};
+
+const didHookDepsChange = (
+  deps: unknown[] | null,
+  prevDeps: unknown[] | null,
+) => {
+  if (!deps || !prevDeps || deps.length !== prevDeps.length) return true;
+  for (let i = 0; i < deps.length; i++) {
+    if (!Object.is(deps[i], prevDeps[i])) return true;
+  }
+  return false;
+};
+
+/**
+ * Returns the hooks of a function component {@link Fiber} in call order, with their current and previous values. Uses `_debugHookTypes` in development builds and the shape of each hook in production builds, where `version` (defaulting to the React version of the renderer that committed the fiber's root) decodes effect tags.
+ *
+ * @example
+ * for (const hook of getHooks(fiber)) {
+ *   if (hook.kind === 'state' && hook.hasChanged) {
+ *     console.log(`state hook #${hook.index} changed from`, hook.prevValue, 'to', hook.value);
+ *   }
+ * }
+ */
+export const getHooks = (fiber: Fiber, version?: string): FiberHook[] => {
+  const hooks: FiberHook[] = [];
+  if (
+    getFiberTagName(fiber) !== 'FunctionComponent' &&
+    getFiberTagName(fiber) !== 'ForwardRef' &&
+    getFiberTagName(fiber) !== 'SimpleMemoComponent'
+  ) {
+    return hooks;
+  }
+  const hookTypes = (fiber as { _debugHookTypes?: string[] | null })
+    ._debugHookTypes;
+  const hasPrev = fiber.alternate !== null;
+  let node: MemoizedState | null = fiber.memoizedState;
+  let prevNode: MemoizedState | null = fiber.alternate?.memoizedState ?? null;
+  let typeIndex = 0;
+  let effectTags: HookEffectTags | undefined;
+
+  while (node) {
+    let name: string | null = null;
+    let kind: HookKind;
+    let nodeCount: number;
+    if (hookTypes) {
+      // hooks without a node (e.g. useContext) don't appear in the list
+      while (
+        typeIndex < hookTypes.length &&
+        HOOK_NODE_COUNTS[hookTypes[typeIndex]] === 0
+      ) {
+        typeIndex++;
+      }
+      name = hookTypes[typeIndex++] ?? null;
+    }
+    if (name) {
+      kind = HOOK_KINDS[name] ?? 'unknown';
+      nodeCount = HOOK_NODE_COUNTS[name] ?? 1;
+    } else {
+      effectTags ??= getBitTables(
+        version ?? getRendererVersionFromFiber(fiber),
+      ).hookEffectTags;
+      ({ kind, nodeCount } = guessHookKind(node, effectTags));
+    }
+
+    const value = getHookValue(kind, node);
+    const prevValue = hasPrev ? getHookValue(kind, prevNode) : undefined;
+    const hook = {
+      index: hooks.length,
+      name,
+      value,
+      prevValue,
+      hasChanged: hasPrev && !Object.is(value, prevValue),
+      node,
+    };
+    if (kind === 'memo' || kind === 'callback') {
+      hooks.push({
+        ...hook,
+        kind,
+        deps: getHookDeps(kind, node),
+        prevDeps: hasPrev ? getHookDeps(kind, prevNode) : null,
+      });
+    } else if (
+      kind === 'effect' ||
+      kind === 'layout-effect' ||
+      kind === 'insertion-effect' ||
+      kind === 'imperative-handle'
+    ) {
+      const deps = getHookDeps(kind, node);
+      const prevDeps = hasPrev ? getHookDeps(kind, prevNode) : null;
+      hooks.push({
+        ...hook,
+        kind,
+        hasChanged: hasPrev && didHookDepsChange(deps, prevDeps),
+        deps,
+        prevDeps,
+      });
+    } else {
+      hooks.push({ ...hook, kind });
+    }
+
+    for (let i = 0; i < nodeCount && node; i++) {
+      node = node.next;
+      prevNode = prevNode?.next ?? null;
+    }
+  }
+  return hooks;
+};
+
 /**
  * Traverses up or down a {@link Fiber}'s props, return `true` to stop and select the current and previous props value.
  */
@@ -261,6 +847,105 @@ export const traverseProps = (
   return false;
 };
 
+/**
+ * Returns the context a provider {@link Fiber} supplies, or `null` if it isn't a provider.
+ */
+export const getProviderContext = (
+  fiber: Fiber,
+): React.Context<unknown> | null => {
+  if (getFiberTagName(fiber) !== 'ContextProvider') return null;
+  // react 19 uses the context as the provider type, react 18 `{ _context }`
+  const type = fiber.type as
+    | (React.Context<unknown> & { _context?: React.Context<unknown> })
+    | null;
+  return type?._context ?? type ?? null;
+};
+
+/**
+ * Returns the nearest provider {@link Fiber} above the fiber that supplies the context, or `null` if the context's default value is used.
+ */
+export const getContextProvider = <T>(
+  fiber: Fiber,
+  context: React.Context<T>,
+): Fiber | null =>
+  traverseFiber(
+    fiber.return,
+    (node) => getProviderContext(node) === (context as React.Context<unknown>),
+    true,
+  );
+
+/**
+ * Returns the value of the context at the {@link Fiber}, i.e. what `useContext` would return there.
+ */
+export const getContextValue = <T>(
+  fiber: Fiber,
+  context: React.Context<T>,
+): T => {
+  const provider = getContextProvider(fiber, context);
+  if (provider) return provider.memoizedProps.value as T;
+  // outside of a render this is the default value
+  return (context as unknown as { _currentValue: T })._currentValue;
+};
+
+export interface FiberContext {
+  context: React.Context<unknown>;
+  /**
+   * The value the fiber read in its last render.
+   */
+  value: unknown;
+  /**
+   * `null` if the fiber read the context's default value.
+   */
+  provider: Fiber | null;
+}
+
+/**
+ * Returns every context the {@link Fiber} reads, with the provider that supplies it.
+ */
+export const getFiberContexts = (fiber: Fiber): FiberContext[] => {
+  const contexts: FiberContext[] = [];
+  const seen = new Set<unknown>();
+  let dependency = fiber.dependencies?.firstContext ?? null;
+  while (dependency) {
+    const context = dependency.context as unknown as React.Context<unknown>;
+    if (!seen.has(context)) {
+      seen.add(context);
+      contexts.push({
+        context,
+        value: dependency.memoizedValue,
+        provider: getContextProvider(fiber, context),
+      });
+    }
+    dependency = dependency.next;
+  }
+  return contexts;
+};
+
+/**
+ * Returns every {@link Fiber} in the tree that reads the context, in tree order.
+ *
+ * @example
+ * const consumers = getContextConsumers(root, ThemeContext);
+ * console.log(consumers.map((fiber) => getDisplayName(fiber.type)));
+ */
+export const getContextConsumers = <T>(
+  root: Fiber | FiberRoot,
+  context: React.Context<T>,
+): Fiber[] => {
+  const consumers: Fiber[] = [];
+  for (const { fiber } of walkFiber('current' in root ? root.current : root)) {
+    let dependency = fiber.dependencies?.firstContext ?? null;
+    while (dependency) {
+      if ((dependency.context as unknown) === context) {
+        consumers.push(fiber);
+        break;
+      }
+      dependency = dependency.next;
+    }
+  }
+  return consumers;
+};
+
 /**
  * Returns `true` if the {@link Fiber} has rendered. Note that this does not mean the fiber has rendered in the current commit, just that it has rendered in the past.
  */
@@ -270,13 +955,13 @@ export const didFiberRender = (fiber: Fiber): boolean => {
   const flags =
     fiber.flags ?? (fiber as unknown as { effectTag: number }).effectTag ?? 0;
 
-  switch (fiber.tag) {
-    case ClassComponentTag:
-    case FunctionComponentTag:
-    case ContextConsumerTag:
-    case ForwardRefTag:
-    case MemoComponentTag:
-    case SimpleMemoComponentTag: {
+  switch (getFiberTagName(fiber)) {
+    case 'ClassComponent':
+    case 'FunctionComponent':
+    case 'ContextConsumer':
+    case 'ForwardRef':
+    case 'MemoComponent':
+    case 'SimpleMemoComponent': {
       return (flags & PerformedWork) === PerformedWork;
     }
     default:
@@ -290,551 +975,3342 @@ export const didFiberRender = (fiber: Fiber): boolean => {
   }
 };
 
-/**
- * Returns `true` if the {@link Fiber} has committed. Note that this does not mean the fiber has committed in the current commit, just that it has committed in the past.
- */
-export const didFiberCommit = (fiber: Fiber): boolean => {
-  return Boolean(
-    (fiber.flags & (MutationMask | Cloned)) !== 0 ||
-      (fiber.subtreeFlags & (MutationMask | Cloned)) !== 0,
-  );
-};
+export interface DeepEqualOptions {
+  /**
+   * How many levels to compare, deeper values are treated as different. Defaults to `Infinity`.
+   */
+  maxDepth?: number;
+  /**
+   * Paths to skip, e.g. `'style.transform'` or `'items.*.id'`. `*` matches any key.
+   */
+  ignorePaths?: string[];
+  /**
+   * Treat functions with the same source as equal, e.g. arrow functions recreated every render. Defaults to `false`.
+   */
+  compareFunctionSource?: boolean;
+}
 
-/**
- * Returns all host {@link Fiber}s that have committed and rendered.
- */
-export const getMutatedHostFibers = (fiber: Fiber): Fiber[] => {
-  const mutations: Fiber[] = [];
-  const stack: Fiber[] = [fiber];
+interface DeepEqualContext {
+  maxDepth: number;
+  ignorePaths: string[][] | null;
+  compareFunctionSource: boolean;
+  seen: WeakMap<object, object>;
+  // dotted paths of values that were recreated with the same contents, in
+  // tree order
+  recreatedPaths: string[] | null;
+}
 
-  while (stack.length) {
-    const node = stack.pop();
-    if (!node) continue;
+const isIgnoredPath = (path: string[], ignorePaths: string[][]) =>
+  ignorePaths.some(
+    (ignorePath) =>
+      ignorePath.length === path.length &&
+      ignorePath.every((key, i) => key === '*' || key === path[i]),
+  );
 
-    if (isHostFiber(node) && didFiberCommit(node) && didFiberRender(node)) {
-      mutations.push(node);
+const compareDeep = (
+  a: unknown,
+  b: unknown,
+  context: DeepEqualContext,
+  path: string[],
+  depth: number,
+): boolean => {
+  if (Object.is(a, b)) return true;
+  if (
+    context.compareFunctionSource &&
+    typeof a === 'function' &&
+    typeof b === 'function'
+  ) {
+    return (
+      Function.prototype.toString.call(a) ===
+      Function.prototype.toString.call(b)
+    );
+  }
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b) ||
+    depth >= context.maxDepth
+  ) {
+    return false;
+  }
+  // cycles compare equal if they pair up the same way
+  if (context.seen.get(a) === b) return true;
+  context.seen.set(a, b);
+
+  // paths are only tracked when they can be ignored or are reported
+  const compareChild = (key: string, childA: unknown, childB: unknown) => {
+    if (!context.ignorePaths && !context.recreatedPaths) {
+      return compareDeep(childA, childB, context, path, depth + 1);
+    }
+    const childPath = [...path, key];
+    if (context.ignorePaths && isIgnoredPath(childPath, context.ignorePaths)) {
+      return true;
     }
+    return compareRecreated(childA, childB, context, childPath, depth + 1);
+  };
 
-    if (node.child) stack.push(node.child);
-    if (node.sibling) stack.push(node.sibling);
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (a instanceof RegExp) return String(a) === String(b);
+  if (a instanceof Map) {
+    const mapB = b as Map<unknown, unknown>;
+    if (a.size !== mapB.size) return false;
+    for (const [key, value] of a) {
+      if (!mapB.has(key) || !compareChild(String(key), value, mapB.get(key))) {
+        return false;
+      }
+    }
+    return true;
+  }
+  if (a instanceof Set) {
+    const setB = b as Set<unknown>;
+    if (a.size !== setB.size) return false;
+    for (const value of a) {
+      if (!setB.has(value)) return false;
+    }
+    return true;
+  }
+  if (Array.isArray(a)) {
+    const arrayB = b as unknown[];
+    if (a.length !== arrayB.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (!compareChild(String(i), a[i], arrayB[i])) return false;
+    }
+    return true;
+  }
+  const objectA = a as Record<string, unknown>;
+  const objectB = b as Record<string, unknown>;
+  // elements also hold their owner and dev-only fields, which aren't part of
+  // their value
+  if ('$$typeof' in objectA) {
+    return (
+      objectA.$$typeof === objectB.$$typeof &&
+      objectA.type === objectB.type &&
+      objectA.key === objectB.key &&
+      compareChild('props', objectA.props, objectB.props)
+    );
   }
+  const keys = Object.keys(objectA);
+  if (keys.length !== Object.keys(objectB).length) return false;
+  for (const key of keys) {
+    if (
+      !Object.prototype.hasOwnProperty.call(objectB, key) ||
+      !compareChild(key, objectA[key], objectB[key])
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
 
-  return mutations;
+// records the path before the paths found inside the value
+const compareRecreated = (
+  a: unknown,
+  b: unknown,
+  context: DeepEqualContext,
+  path: string[],
+  depth: number,
+) => {
+  const index = context.recreatedPaths?.length ?? 0;
+  const isEqual = compareDeep(a, b, context, path, depth);
+  if (isEqual && context.recreatedPaths && !Object.is(a, b)) {
+    context.recreatedPaths.splice(index, 0, path.join('.'));
+  }
+  return isEqual;
 };
 
+const createDeepEqualContext = (
+  options: DeepEqualOptions,
+  recreatedPaths: string[] | null = null,
+): DeepEqualContext => ({
+  maxDepth: options.maxDepth ?? Number.POSITIVE_INFINITY,
+  ignorePaths: options.ignorePaths?.length
+    ? options.ignorePaths.map((ignorePath) => ignorePath.split('.'))
+    : null,
+  compareFunctionSource: options.compareFunctionSource ?? false,
+  seen: new WeakMap(),
+  recreatedPaths,
+});
+
 /**
- * Returns the stack of {@link Fiber}s from the current fiber to the root fiber.
+ * Returns `true` if both values have the same contents. Handles cycles, `Map`, `Set`, `Date`, `RegExp` and React elements (compared by type, key and props).
  *
  * @example
- * ```ts
- * [fiber, fiber.return, fiber.return.return, ...]
- * ```
+ * isDeepEqual({ style: { color: 'red' } }, { style: { color: 'red' } }); // true
+ * isDeepEqual(a, b, { maxDepth: 3, ignorePaths: ['style.transform'] });
  */
-export const getFiberStack = (fiber: Fiber) => {
-  const stack: Fiber[] = [];
-  let currentFiber = fiber;
-  while (currentFiber.return) {
-    stack.push(currentFiber);
-    currentFiber = currentFiber.return;
-  }
-  const newStack = new Array(stack.length);
-  for (let i = 0; i < stack.length; i++) {
-    newStack[i] = stack[stack.length - i - 1];
-  }
-  return newStack;
-};
+export const isDeepEqual = (
+  a: unknown,
+  b: unknown,
+  options: DeepEqualOptions = {},
+): boolean => compareDeep(a, b, createDeepEqualContext(options), [], 0);
 
-/**
- * Returns `true` if the {@link Fiber} should be filtered out during reconciliation.
- */
-export const shouldFilterFiber = (fiber: Fiber) => {
-  switch (fiber.tag) {
-    case DehydratedSuspenseComponentTag:
-      // TODO: ideally we would show dehydrated Suspense immediately.
-      // However, it has some special behavior (like disconnecting
-      // an alternate and turning into real Suspense) which breaks DevTools.
-      // For now, ignore it, and only show it once it gets hydrated.
-      // https://github.com/bvaughn/react-devtools-experimental/issues/197
-      return true;
+export type RenderReasonKind =
+  | 'mount'
+  | 'parent'
+  | 'props'
+  | 'state'
+  | 'context'
+  | 'force-update'
+  | 'compiler-cache-miss';
 
-    case HostTextTag:
-    case FragmentTag:
-    case LegacyHiddenComponentTag:
-    case OffscreenComponentTag:
-      return true;
+export interface ValueChange {
+  prevValue: unknown;
+  nextValue: unknown;
+  /**
+   * `true` if the values are different objects with the same contents, i.e. the change could have been avoided with memoization.
+   */
+  isDeepEqual: boolean;
+}
 
-    case HostRootTag:
-      // It is never valid to filter the root element.
-      return false;
+export interface PropChange extends ValueChange {
+  name: string;
+}
 
-    default: {
-      const symbolOrNumber =
-        typeof fiber.type === 'object' && fiber.type !== null
-          ? fiber.type.$$typeof
-          : fiber.type;
+export interface StateChange extends ValueChange {
+  /**
+   * `null` for the state of a class component.
+   */
+  hook: FiberHook | null;
+}
 
-      const typeSymbol =
-        typeof symbolOrNumber === 'symbol'
-          ? symbolOrNumber.toString()
-          : symbolOrNumber;
+export interface ContextChange extends ValueChange {
+  context: React.Context<unknown>;
+}
 
-      switch (typeSymbol) {
-        case CONCURRENT_MODE_NUMBER:
-        case CONCURRENT_MODE_SYMBOL_STRING:
-        case DEPRECATED_ASYNC_MODE_SYMBOL_STRING:
-          return true;
+export interface RenderReason {
+  /**
+   * The most specific cause of the render.
+   */
+  reason: RenderReasonKind;
+  /**
+   * Every cause that applies, most specific first.
+   */
+  reasons: RenderReasonKind[];
+  props: PropChange[];
+  state: StateChange[];
+  contexts: ContextChange[];
+  /**
+   * Memo cache slots (React Compiler) that were recomputed in this render.
+   */
+  memoCacheMisses: number[];
+}
 
-        default:
-          return false;
-      }
-    }
-  }
-};
+const STATE_HOOK_KINDS = new Set<HookKind>([
+  'state',
+  'reducer',
+  'transition',
+  'deferred-value',
+  'sync-external-store',
+  'action-state',
+  'optimistic',
+]);
 
-/**
- * Returns the nearest host {@link Fiber} to the current {@link Fiber}.
- */
-export const getNearestHostFiber = (fiber: Fiber, ascending = false) => {
-  let hostFiber = traverseFiber(fiber, isHostFiber, ascending);
-  if (!hostFiber) {
-    hostFiber = traverseFiber(fiber, isHostFiber, !ascending);
+const createValueChange = (prevValue: unknown, nextValue: unknown) => ({
+  prevValue,
+  nextValue,
+  isDeepEqual: isDeepEqual(prevValue, nextValue),
+});
+
+const getContextValues = (fiber: Fiber) => {
+  const values = new Map<React.Context<unknown>, unknown>();
+  let dependency = fiber.dependencies?.firstContext ?? null;
+  while (dependency) {
+    const context = dependency.context as unknown as React.Context<unknown>;
+    if (!values.has(context)) values.set(context, dependency.memoizedValue);
+    dependency = dependency.next;
   }
-  return hostFiber;
+  return values;
 };
 
+const getMemoCacheSlots = (fiber: Fiber) =>
+  (
+    fiber.updateQueue as unknown as {
+      memoCache?: { data: unknown[][] } | null;
+    } | null
+  )?.memoCache?.data.flat() ?? null;
+
 /**
- * Returns all host {@link Fiber}s in the tree that are associated with the current {@link Fiber}.
+ * Returns why a composite {@link Fiber} rendered in the last commit, or `null` if it didn't render.
+ *
+ * @example
+ * const { reason, props } = getRenderReason(fiber);
+ * if (reason === 'props') {
+ *   for (const { name, isDeepEqual } of props) {
+ *     if (isDeepEqual) console.log(name, 'changed but has the same contents');
+ *   }
+ * }
  */
-export const getNearestHostFibers = (fiber: Fiber) => {
-  const hostFibers: Fiber[] = [];
-  const stack: Fiber[] = [];
+export const getRenderReason = (fiber: Fiber): RenderReason | null => {
+  if (!isCompositeFiber(fiber) || !didFiberRender(fiber)) return null;
+  const prevFiber = fiber.alternate;
+  const renderReason: RenderReason = {
+    reason: 'mount',
+    reasons: ['mount'],
+    props: [],
+    state: [],
+    contexts: [],
+    memoCacheMisses: [],
+  };
+  if (!prevFiber) return renderReason;
+  const reasons: RenderReasonKind[] = [];
+
+  if (getFiberTagName(fiber) === 'ClassComponent') {
+    if (!Object.is(fiber.memoizedState, prevFiber.memoizedState)) {
+      renderReason.state.push({
+        hook: null,
+        ...createValueChange(prevFiber.memoizedState, fiber.memoizedState),
+      });
+    }
+  } else {
+    for (const hook of getHooks(fiber)) {
+      if (!STATE_HOOK_KINDS.has(hook.kind) || !hook.hasChanged) continue;
+      renderReason.state.push({
+        hook,
+        ...createValueChange(hook.prevValue, hook.value),
+      });
+    }
+  }
+  if (renderReason.state.length) reasons.push('state');
 
-  if (isHostFiber(fiber)) {
-    hostFibers.push(fiber);
-  } else if (fiber.child) {
-    stack.push(fiber.child);
+  const prevContextValues = getContextValues(prevFiber);
+  for (const [context, value] of getContextValues(fiber)) {
+    if (!prevContextValues.has(context)) continue;
+    const prevValue = prevContextValues.get(context);
+    if (Object.is(value, prevValue)) continue;
+    renderReason.contexts.push({
+      context,
+      ...createValueChange(prevValue, value),
+    });
   }
+  if (renderReason.contexts.length) reasons.push('context');
 
-  while (stack.length) {
-    const currentNode = stack.pop();
-    if (!currentNode) break;
-    if (isHostFiber(currentNode)) {
-      hostFibers.push(currentNode);
-    } else if (currentNode.child) {
-      stack.push(currentNode.child);
+  const nextProps = fiber.memoizedProps;
+  const prevProps = prevFiber.memoizedProps;
+  const didParentRender = nextProps !== prevProps;
+  if (
+    getFiberTagName(fiber) === 'ClassComponent' &&
+    !didParentRender &&
+    !reasons.length
+  ) {
+    reasons.push('force-update');
+  }
+
+  if (didParentRender) {
+    for (const name of new Set([
+      ...Object.keys(prevProps ?? {}),
+      ...Object.keys(nextProps ?? {}),
+    ])) {
+      if (Object.is(prevProps?.[name], nextProps?.[name])) continue;
+      renderReason.props.push({
+        name,
+        ...createValueChange(prevProps?.[name], nextProps?.[name]),
+      });
     }
+    if (renderReason.props.length) reasons.push('props');
+  }
 
-    if (currentNode.sibling) {
-      stack.push(currentNode.sibling);
+  const memoCacheSlots = getMemoCacheSlots(fiber);
+  const prevMemoCacheSlots = getMemoCacheSlots(prevFiber);
+  if (memoCacheSlots && prevMemoCacheSlots) {
+    for (let i = 0; i < memoCacheSlots.length; i++) {
+      if (!Object.is(memoCacheSlots[i], prevMemoCacheSlots[i])) {
+        renderReason.memoCacheMisses.push(i);
+      }
+    }
+    if (renderReason.memoCacheMisses.length) {
+      reasons.push('compiler-cache-miss');
     }
   }
 
-  return hostFibers;
+  if (didParentRender) reasons.push('parent');
+  // e.g. a class component re-rendered by its parent with the same props
+  if (!reasons.length) reasons.push('parent');
+  renderReason.reasons = reasons;
+  renderReason.reason = reasons[0];
+  return renderReason;
+};
+
+const didStateOrContextChange = (fiber: Fiber, prevFiber: Fiber) => {
+  if (getFiberTagName(fiber) === 'ClassComponent') {
+    if (!Object.is(fiber.memoizedState, prevFiber.memoizedState)) return true;
+  } else if (
+    getHooks(fiber).some(
+      (hook) => STATE_HOOK_KINDS.has(hook.kind) && hook.hasChanged,
+    )
+  ) {
+    return true;
+  }
+  const prevContextValues = getContextValues(prevFiber);
+  for (const [context, value] of getContextValues(fiber)) {
+    if (
+      prevContextValues.has(context) &&
+      !Object.is(prevContextValues.get(context), value)
+    ) {
+      return true;
+    }
+  }
+  return false;
 };
 
 /**
- * Traverses up or down a {@link Fiber}, return `true` to stop and select a node.
+ * Returns the paths of the props that were recreated with the same contents if they are the only reason the {@link Fiber} rendered, e.g. `['style', 'config', 'config.onSelect']`, otherwise `null`. Ignore paths start with the prop name, e.g. `'style.transform'`.
  */
-export const traverseFiber = (
-  fiber: Fiber | null,
-  // biome-ignore lint/suspicious/noConfusingVoidType: may or may not exist
-  selector: (node: Fiber) => boolean | void,
-  ascending = false,
-): Fiber | null => {
-  if (!fiber) return null;
-  if (selector(fiber) === true) return fiber;
-
-  let child = ascending ? fiber.return : fiber.child;
-  while (child) {
-    const match = traverseFiber(child, selector, ascending);
-    if (match) return match;
-
-    child = ascending ? null : child.sibling;
+export const getUnnecessaryRenderProps = (
+  fiber: Fiber,
+  options: DeepEqualOptions = {},
+): string[] | null => {
+  const prevFiber = fiber.alternate;
+  if (
+    !prevFiber ||
+    !isCompositeFiber(fiber) ||
+    !didFiberRender(fiber) ||
+    didStateOrContextChange(fiber, prevFiber)
+  ) {
+    return null;
   }
-  return null;
+  const propPaths: string[] = [];
+  const context = createDeepEqualContext(options, propPaths);
+  const hasChangedProp = traverseProps(fiber, (propName, next, prev) => {
+    if (Object.is(next, prev)) return;
+    const path = [propName];
+    if (context.ignorePaths && isIgnoredPath(path, context.ignorePaths)) {
+      return;
+    }
+    if (!compareRecreated(next, prev, context, path, 0)) return true;
+  });
+  return hasChangedProp || !propPaths.length ? null : propPaths;
 };
 
+export interface UnnecessaryRenders {
+  type: unknown;
+  displayName: string | null;
+  /**
+   * Renders where every changed prop was deep-equal to its previous value.
+   */
+  count: number;
+  /**
+   * Up to 5 prop paths that were recreated with the same contents, e.g. `style` or `config.onSelect`.
+   */
+  propPaths: string[];
+}
+
 /**
- * Returns the timings of the {@link Fiber}.
+ * Aggregates unnecessary renders (see {@link getUnnecessaryRenderProps}) per component type. Call `track` on every commit. Compares 10 levels deep and compares function source by default.
  *
  * @example
- * ```ts
- * const { selfTime, totalTime } = getTimings(fiber);
- * console.log(selfTime, totalTime);
- * ```
+ * const tracker = createUnnecessaryRenderTracker({ ignorePaths: ['children'] });
+ * instrument({
+ *   onCommitFiberRoot(rendererID, root) {
+ *     tracker.track(root);
+ *   },
+ * });
+ * console.table(tracker.getUnnecessaryRenders());
  */
-export const getTimings = (fiber?: Fiber | null | undefined) => {
-  const totalTime = fiber?.actualDuration ?? 0;
-  let selfTime = totalTime;
-  // TODO: calculate a DOM time, which is just host component summed up
-  let child = fiber?.child ?? null;
-  while (totalTime > 0 && child != null) {
-    selfTime -= child.actualDuration ?? 0;
-    child = child.sibling;
-  }
-  return { selfTime, totalTime };
+export const createUnnecessaryRenderTracker = (
+  options: DeepEqualOptions = {},
+) => {
+  const equalityOptions: DeepEqualOptions = {
+    maxDepth: 10,
+    compareFunctionSource: true,
+    ...options,
+  };
+  const unnecessaryRenders = new Map<unknown, UnnecessaryRenders>();
+
+  const track = (root: FiberRoot) => {
+    traverseRenderedFibers(root, (fiber, phase) => {
+      if (phase !== 'update') return;
+      const propPaths = getUnnecessaryRenderProps(fiber, equalityOptions);
+      if (!propPaths) return;
+      let entry = unnecessaryRenders.get(fiber.type);
+      if (!entry) {
+        entry = {
+          type: fiber.type,
+          displayName: getDisplayName(fiber.type),
+          count: 0,
+          propPaths: [],
+        };
+        unnecessaryRenders.set(fiber.type, entry);
+      }
+      entry.count++;
+      for (const propPath of propPaths) {
+        if (entry.propPaths.length >= 5) break;
+        if (!entry.propPaths.includes(propPath)) {
+          entry.propPaths.push(propPath);
+        }
+      }
+    });
+  };
+
+  return {
+    track,
+    /**
+     * Returns the aggregated renders, most frequent first.
+     */
+    getUnnecessaryRenders: () =>
+      [...unnecessaryRenders.values()].sort((a, b) => b.count - a.count),
+    reset: () => {
+      unnecessaryRenders.clear();
+    },
+  };
 };
 
 /**
- * Returns `true` if the {@link Fiber} uses React Compiler's memo cache.
+ * Returns `true` if the {@link Fiber} has committed. Note that this does not mean the fiber has committed in the current commit, just that it has committed in the past.
  */
-export const hasMemoCache = (fiber: Fiber) => {
+export const didFiberCommit = (fiber: Fiber): boolean => {
   return Boolean(
-    (fiber.updateQueue as unknown as { memoCache: unknown })?.memoCache,
+    (fiber.flags & (MutationMask | Cloned)) !== 0 ||
+      (fiber.subtreeFlags & (MutationMask | Cloned)) !== 0,
   );
 };
 
-type FiberType =
-  | React.ComponentType<unknown>
-  | React.ForwardRefExoticComponent<unknown>
-  | React.MemoExoticComponent<React.ComponentType<unknown>>;
+/**
+ * Returns all host {@link Fiber}s that have committed and rendered.
+ */
+export const getMutatedHostFibers = (fiber: Fiber): Fiber[] => {
+  const mutations: Fiber[] = [];
+
+  for (const { fiber: node } of walkFiber(fiber)) {
+    if (isHostFiber(node) && didFiberCommit(node) && didFiberRender(node)) {
+      mutations.push(node);
+    }
+  }
+
+  return mutations;
+};
 
 /**
- * Returns the type (e.g. component definition) of the {@link Fiber}
+ * Returns the stack of {@link Fiber}s from the current fiber to the root fiber.
+ *
+ * @example
+ * ```ts
+ * [fiber, fiber.return, fiber.return.return, ...]
+ * ```
  */
-export const getType = (type: unknown): React.ComponentType<unknown> | null => {
-  const currentType = type as FiberType;
-  if (typeof currentType === 'function') {
-    return currentType;
+export const getFiberStack = (fiber: Fiber) => {
+  const stack: Fiber[] = [];
+  let currentFiber = fiber;
+  while (currentFiber.return) {
+    stack.push(currentFiber);
+    currentFiber = currentFiber.return;
   }
-  if (typeof currentType === 'object' && currentType) {
-    // memo / forwardRef case
-    return getType(
-      (currentType as React.MemoExoticComponent<React.ComponentType<unknown>>)
-        .type ||
-        (currentType as { render: React.ComponentType<unknown> }).render,
-    );
+  const newStack = new Array(stack.length);
+  for (let i = 0; i < stack.length; i++) {
+    newStack[i] = stack[stack.length - i - 1];
   }
-  return null;
+  return newStack;
 };
 
+export interface FiberSource {
+  fileName: string;
+  lineNumber: number;
+  columnNumber: number | null;
+}
+
 /**
- * Returns the display name of the {@link Fiber}.
+ * Maps a (generated) source location back to its original location, e.g. with {@link createSourceMapResolver}.
  */
-export const getDisplayName = (type: unknown): string | null => {
-  const currentType = type as FiberType;
-  if (
-    typeof currentType !== 'function' &&
-    !(typeof currentType === 'object' && currentType)
-  ) {
-    return null;
+export type SourceResolver = (source: FiberSource) => FiberSource | null;
+
+// V8: `    at App (http://localhost:3000/App.tsx:12:5)` or `    at http://...:12:5`
+const V8_STACK_FRAME_REGEX = /^\s*at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/;
+// Firefox, Safari: `App@http://localhost:3000/App.tsx:12:5`
+const GECKO_STACK_FRAME_REGEX = /^(.*?)@(.+):(\d+):(\d+)$/;
+
+const parseStackFrames = (stack: string): FiberSource[] => {
+  const frames: FiberSource[] = [];
+  for (const line of stack.split('\n')) {
+    const match =
+      line.match(V8_STACK_FRAME_REGEX) ?? line.match(GECKO_STACK_FRAME_REGEX);
+    if (!match) continue;
+    frames.push({
+      fileName: match[2],
+      lineNumber: Number(match[3]),
+      columnNumber: Number(match[4]),
+    });
   }
-  const name = currentType.displayName || currentType.name || null;
-  if (name) return name;
-  const unwrappedType = getType(currentType);
-  if (!unwrappedType) return null;
-  return unwrappedType.displayName || unwrappedType.name || null;
+  return frames;
 };
 
 /**
- * Returns the build type of the React renderer.
+ * Returns the location of the JSX that created the fiber's element, from `_debugSource` (React 17/18) or `_debugStack` (React 19). Only available in development builds.
  */
-export const detectReactBuildType = (renderer: ReactRenderer) => {
+export const getFiberSource = (fiber: Fiber): FiberSource | null => {
   try {
-    if (typeof renderer.version === 'string' && renderer.bundleType > 0) {
-      return 'development';
+    const debugSource = fiber._debugSource;
+    if (debugSource) {
+      return {
+        fileName: debugSource.fileName,
+        lineNumber: debugSource.lineNumber,
+        // babel's jsx-source plugin adds it, the reconciler types don't
+        columnNumber:
+          'columnNumber' in debugSource &&
+          typeof debugSource.columnNumber === 'number'
+            ? debugSource.columnNumber
+            : null,
+      };
     }
-  } catch {}
-  return 'production';
+    const stack = fiber._debugStack?.stack;
+    if (!stack) return null;
+    // the first frame is the jsx() or createElement() call that captured the
+    // stack, the next one is the code that rendered the element
+    return parseStackFrames(stack)[1] ?? null;
+  } catch {
+    return null;
+  }
 };
 
-/**
- * Returns `true` if bippy's instrumentation is active.
- */
-export const isInstrumentationActive = () => {
-  const rdtHook = getRDTHook();
-  return (
-    Boolean(rdtHook._instrumentationIsActive) ||
-    isRealReactDevtools() ||
-    isReactRefresh()
-  );
-};
+export interface SourceMap {
+  version: number;
+  sources: string[];
+  mappings: string;
+  sourceRoot?: string;
+  names?: string[];
+  file?: string;
+}
 
-export type RenderPhase = 'mount' | 'update' | 'unmount';
+const BASE64_DIGITS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
 
-export type RenderHandler = <S>(
-  fiber: Fiber,
-  phase: RenderPhase,
-  state?: S,
-) => unknown;
+const decodeVLQSegment = (segment: string) => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (let i = 0; i < segment.length; i++) {
+    const digit = BASE64_DIGITS.indexOf(segment[i]);
+    value += (digit & 0b11111) << shift;
+    if (digit & 0b100000) {
+      shift += 5;
+      continue;
+    }
+    values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+    value = 0;
+    shift = 0;
+  }
+  return values;
+};
 
-let fiberId = 0;
-export const fiberIdMap = new WeakMap<Fiber, number>();
+// [generatedColumn, sourceIndex, originalLine, originalColumn], all 0-based
+type SourceMapSegment = [number, number, number, number];
 
-export const setFiberId = (fiber: Fiber, id: number = fiberId++) => {
-  fiberIdMap.set(fiber, id);
+const decodeSourceMapMappings = (mappings: string) => {
+  const lines: SourceMapSegment[][] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  for (const line of mappings.split(';')) {
+    const segments: SourceMapSegment[] = [];
+    let generatedColumn = 0;
+    for (const segment of line.split(',')) {
+      if (!segment) continue;
+      const values = decodeVLQSegment(segment);
+      generatedColumn += values[0];
+      // segments without a source only mark generated code
+      if (values.length < 4) continue;
+      sourceIndex += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+      segments.push([
+        generatedColumn,
+        sourceIndex,
+        originalLine,
+        originalColumn,
+      ]);
+    }
+    lines.push(segments);
+  }
+  return lines;
 };
 
-// react fibers are double buffered, so the alternate fiber may
-// be switched to the current fiber and vice versa.
-// fiber === fiber.alternate.alternate
-export const getFiberId = (fiber: Fiber) => {
-  let id = fiberIdMap.get(fiber);
-  if (!id && fiber.alternate) {
-    id = fiberIdMap.get(fiber.alternate);
-  }
-  if (!id) {
-    id = fiberId++;
-    setFiberId(fiber, id);
-  }
-  return id;
+const createSourceMapConsumer = (sourceMap: SourceMap) => {
+  let lines: SourceMapSegment[][] | null = null;
+  const sourceRoot = sourceMap.sourceRoot
+    ? sourceMap.sourceRoot.replace(/\/?$/, '/')
+    : '';
+  return (lineNumber: number, columnNumber: number): FiberSource | null => {
+    lines ??= decodeSourceMapMappings(sourceMap.mappings);
+    const segments = lines[lineNumber - 1];
+    if (!segments?.length) return null;
+    // the mapping for a column is the last segment that starts at or before it
+    const column = columnNumber - 1;
+    let low = 0;
+    let high = segments.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (segments[mid][0] <= column) low = mid;
+      else high = mid - 1;
+    }
+    if (segments[low][0] > column) return null;
+    const [, sourceIndex, originalLine, originalColumn] = segments[low];
+    const source = sourceMap.sources[sourceIndex];
+    if (source === undefined) return null;
+    return {
+      fileName: sourceRoot + source,
+      lineNumber: originalLine + 1,
+      columnNumber: originalColumn + 1,
+    };
+  };
 };
 
-export const mountFiberRecursively = (
-  onRender: RenderHandler,
-  firstChild: Fiber,
-  traverseSiblings: boolean,
-) => {
-  let fiber: Fiber | null = firstChild;
+const stripQueryAndHash = (fileName: string) => fileName.replace(/[?#].*$/, '');
 
-  while (fiber != null) {
-    if (!fiberIdMap.has(fiber)) {
-      getFiberId(fiber);
-    }
-    const shouldIncludeInTree = !shouldFilterFiber(fiber);
-    if (shouldIncludeInTree && didFiberRender(fiber)) {
-      onRender(fiber, 'mount');
-    }
+/**
+ * Returns a {@link SourceResolver} for source maps keyed by the generated file's name or URL. Maps are decoded lazily and nothing is fetched, so pass the maps you already have.
+ *
+ * @example
+ * const resolveSource = createSourceMapResolver({
+ *   'http://localhost:3000/main.js': mainSourceMap,
+ * });
+ * getComponentStack(fiber, { resolveSource });
+ */
+export const createSourceMapResolver = (
+  sourceMaps: Record<string, SourceMap | string>,
+): SourceResolver => {
+  const consumers = new Map<
+    string,
+    ReturnType<typeof createSourceMapConsumer>
+  >();
+  for (const [fileName, sourceMap] of Object.entries(sourceMaps)) {
+    consumers.set(
+      stripQueryAndHash(fileName),
+      createSourceMapConsumer(
+        typeof sourceMap === 'string' ? JSON.parse(sourceMap) : sourceMap,
+      ),
+    );
+  }
+  return (source) => {
+    const consumer = consumers.get(stripQueryAndHash(source.fileName));
+    if (!consumer) return null;
+    return consumer(source.lineNumber, source.columnNumber ?? 1);
+  };
+};
 
-    if (fiber.tag === SuspenseComponentTag) {
-      const isTimedOut = fiber.memoizedState !== null;
-      if (isTimedOut) {
-        // Special case: if Suspense mounts in a timed-out state,
-        // get the fallback child from the inner fragment and mount
-        // it as if it was our own child. Updates handle this too.
-        const primaryChildFragment = fiber.child;
-        const fallbackChildFragment = primaryChildFragment
-          ? primaryChildFragment.sibling
-          : null;
-        if (fallbackChildFragment) {
-          const fallbackChild = fallbackChildFragment.child;
-          if (fallbackChild !== null) {
-            mountFiberRecursively(onRender, fallbackChild, false);
-          }
-        }
-      } else {
-        let primaryChild: Fiber | null = null;
-        const areSuspenseChildrenConditionallyWrapped =
-          (OffscreenComponentTag as number) === -1;
-        if (areSuspenseChildrenConditionallyWrapped) {
-          primaryChild = fiber.child;
-        } else if (fiber.child !== null) {
-          primaryChild = fiber.child.child;
-        }
-        if (primaryChild !== null) {
-          mountFiberRecursively(onRender, primaryChild, false);
-        }
+export interface ComponentStackOptions {
+  /**
+   * Maps each frame's location, e.g. back through source maps. Frames keep their location when it returns `null`.
+   */
+  resolveSource?: SourceResolver;
+}
+
+/**
+ * Returns a React-style component stack for the fiber and its ancestors, e.g. `\n    in div (at App.tsx:12:5)\n    in App (at index.tsx:4:3)`.
+ */
+export const getComponentStack = (
+  fiber: Fiber,
+  options: ComponentStackOptions = {},
+) => {
+  let componentStack = '';
+  let currentFiber: Fiber | null = fiber;
+  while (currentFiber && getFiberTagName(currentFiber) !== 'HostRoot') {
+    const name =
+      typeof currentFiber.type === 'string'
+        ? currentFiber.type
+        : getDisplayName(currentFiber.type);
+    if (name) {
+      componentStack += `\n    in ${name}`;
+      let source = getFiberSource(currentFiber);
+      if (source && options.resolveSource) {
+        source = options.resolveSource(source) ?? source;
+      }
+      if (source) {
+        componentStack += ` (at ${source.fileName}:${source.lineNumber}${
+          source.columnNumber === null ? '' : `:${source.columnNumber}`
+        })`;
       }
-    } else if (fiber.child != null) {
-      mountFiberRecursively(onRender, fiber.child, true);
     }
-    fiber = traverseSiblings ? fiber.sibling : null;
+    currentFiber = currentFiber.return;
   }
+  return componentStack;
 };
 
-export const updateFiberRecursively = (
+/**
+ * Returns `true` if the {@link Fiber} should be filtered out during reconciliation.
+ */
+export const shouldFilterFiber = (fiber: Fiber) => {
+  switch (getFiberTagName(fiber)) {
+    case 'DehydratedSuspenseComponent':
+    case 'DehydratedFragment':
+      // TODO: ideally we would show dehydrated Suspense immediately.
+      // However, it has some special behavior (like disconnecting
+      // an alternate and turning into real Suspense) which breaks DevTools.
+      // For now, ignore it, and only show it once it gets hydrated.
+      // https://github.com/bvaughn/react-devtools-experimental/issues/197
+      return true;
+
+    case 'HostText':
+    case 'Fragment':
+    case 'LegacyHiddenComponent':
+    case 'OffscreenComponent':
+      return true;
+
+    case 'HostRoot':
+      // It is never valid to filter the root element.
+      return false;
+
+    default: {
+      const symbolOrNumber =
+        typeof fiber.type === 'object' && fiber.type !== null
+          ? fiber.type.$$typeof
+          : fiber.type;
+
+      const typeSymbol =
+        typeof symbolOrNumber === 'symbol'
+          ? symbolOrNumber.toString()
+          : symbolOrNumber;
+
+      switch (typeSymbol) {
+        case CONCURRENT_MODE_NUMBER:
+        case CONCURRENT_MODE_SYMBOL_STRING:
+        case DEPRECATED_ASYNC_MODE_SYMBOL_STRING:
+          return true;
+
+        default:
+          return false;
+      }
+    }
+  }
+};
+
+/**
+ * Returns the nearest host {@link Fiber} to the current {@link Fiber}.
+ */
+export const getNearestHostFiber = (
+  fiber: Fiber,
+  ascending = false,
+  portals: PortalMode = 'include',
+) => {
+  let hostFiber = traverseFiber(fiber, isHostFiber, ascending, portals);
+  if (!hostFiber) {
+    hostFiber = traverseFiber(fiber, isHostFiber, !ascending, portals);
+  }
+  return hostFiber;
+};
+
+/**
+ * Returns all host {@link Fiber}s in the tree that are associated with the current {@link Fiber}.
+ */
+export const getNearestHostFibers = (
+  fiber: Fiber,
+  portals: PortalMode = 'include',
+) => {
+  const hostFibers: Fiber[] = [];
+
+  for (const entry of walkFiber(fiber, { portals })) {
+    if (isHostFiber(entry.fiber)) {
+      hostFibers.push(entry.fiber);
+      entry.skip();
+    }
+  }
+
+  return hostFibers;
+};
+
+export interface Rect {
+  top: number;
+  left: number;
+  right: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+export interface HostRect {
+  fiber: Fiber;
+  node: Element | Text;
+  rect: Rect;
+}
+
+/**
+ * Returns the rect of a text node. Text nodes don't have `getBoundingClientRect()`, so it's measured with a `Range`.
+ */
+export const getTextRect = (node: Text): Rect | null => {
+  try {
+    const range = node.ownerDocument.createRange();
+    range.selectNodeContents(node);
+    return range.getBoundingClientRect();
+  } catch {
+    return null;
+  }
+};
+
+// nodeType instead of instanceof, so nodes from iframes match too
+const getHostNodeRect = (node: unknown): Rect | null => {
+  if ((node as Node | null)?.nodeType === 3) return getTextRect(node as Text);
+  if (typeof (node as Element | null)?.getBoundingClientRect === 'function') {
+    return (node as Element).getBoundingClientRect();
+  }
+  return null;
+};
+
+/**
+ * Returns the rect of every host node (elements and text) the {@link Fiber} renders, in tree order. Nested host nodes are skipped like in {@link getNearestHostFibers}.
+ */
+export const getHostRects = (
+  fiber: Fiber,
+  portals: PortalMode = 'include',
+): HostRect[] => {
+  const hostRects: HostRect[] = [];
+  for (const entry of walkFiber(fiber, { portals })) {
+    const hostFiber = entry.fiber;
+    if (!isHostFiber(hostFiber) && getFiberTagName(hostFiber) !== 'HostText') {
+      continue;
+    }
+    entry.skip();
+    const rect = getHostNodeRect(hostFiber.stateNode);
+    if (rect) {
+      hostRects.push({ fiber: hostFiber, node: hostFiber.stateNode, rect });
+    }
+  }
+  return hostRects;
+};
+
+const isEmptyRect = (rect: Rect) => rect.width === 0 && rect.height === 0;
+
+/**
+ * Returns the union of the rects of the host nodes the {@link Fiber} renders, or `null` if they all have no size.
+ *
+ * @example
+ * const rect = getFiberRect(fiber, 'exclude'); // ignore portaled children
+ */
+export const getFiberRect = (
+  fiber: Fiber,
+  portals: PortalMode = 'include',
+): Rect | null => {
+  let union: Rect | null = null;
+  for (const { rect } of getHostRects(fiber, portals)) {
+    if (isEmptyRect(rect)) continue;
+    if (!union) {
+      union = { ...rect };
+      continue;
+    }
+    union.top = Math.min(union.top, rect.top);
+    union.left = Math.min(union.left, rect.left);
+    union.right = Math.max(union.right, rect.right);
+    union.bottom = Math.max(union.bottom, rect.bottom);
+  }
+  if (!union) return null;
+  union.width = union.right - union.left;
+  union.height = union.bottom - union.top;
+  return union;
+};
+
+export interface FiberVisibility {
+  /**
+   * At least one host node intersects the viewport.
+   */
+  isInViewport: boolean;
+  /**
+   * Every host node has no width and height.
+   */
+  isZeroSize: boolean;
+  /**
+   * Every host node is hidden by `display: none` on itself or an ancestor.
+   */
+  isDisplayNone: boolean;
+  isVisible: boolean;
+}
+
+const isDisplayNone = (node: Element | Text) => {
+  let element = node.nodeType === 1 ? (node as Element) : node.parentElement;
+  while (element) {
+    const view = element.ownerDocument.defaultView;
+    if (view?.getComputedStyle(element).display === 'none') return true;
+    element = element.parentElement;
+  }
+  return false;
+};
+
+/**
+ * Returns whether the host nodes the {@link Fiber} renders are in the viewport, have a size and are displayed.
+ */
+export const getFiberVisibility = (
+  fiber: Fiber,
+  portals: PortalMode = 'include',
+): FiberVisibility => {
+  const hostRects = getHostRects(fiber, portals);
+  let isInViewport = false;
+  let isZeroSize = true;
+  let isEveryNodeDisplayNone = hostRects.length > 0;
+  for (const { node, rect } of hostRects) {
+    if (isDisplayNone(node)) continue;
+    isEveryNodeDisplayNone = false;
+    if (isEmptyRect(rect)) continue;
+    isZeroSize = false;
+    const view = node.ownerDocument?.defaultView;
+    if (
+      view &&
+      rect.bottom > 0 &&
+      rect.right > 0 &&
+      rect.top < view.innerHeight &&
+      rect.left < view.innerWidth
+    ) {
+      isInViewport = true;
+    }
+  }
+  return {
+    isInViewport,
+    isZeroSize,
+    isDisplayNone: isEveryNodeDisplayNone,
+    isVisible: isInViewport && !isEveryNodeDisplayNone,
+  };
+};
+
+/**
+ * How traversals treat portals: `include` walks into them like any other
+ * fiber, `exclude` skips the portal and its subtree, and `stop` visits the
+ * portal but not its subtree (or stops there when walking up).
+ */
+export type PortalMode = 'include' | 'exclude' | 'stop';
+
+export interface WalkFiberOptions {
+  /**
+   * `pre` visits a fiber before its children, `post` after them. Defaults to `pre`.
+   */
+  order?: 'pre' | 'post';
+  /**
+   * Walks up through `fiber.return` instead of down through the children.
+   */
+  ascending?: boolean;
+  /**
+   * Fibers further than this from the start fiber (depth `0`) are not visited.
+   */
+  maxDepth?: number;
+  /**
+   * Defaults to `include`.
+   */
+  portals?: PortalMode;
+}
+
+export interface FiberWalkEntry {
+  fiber: Fiber;
+  depth: number;
+  /**
+   * The fiber this one was reached from, `null` for the start fiber. When
+   * walking up, this is the child the walk came from.
+   */
+  parent: Fiber | null;
+  /**
+   * The fibers from the start fiber to this one, inclusive.
+   */
+  readonly path: Fiber[];
+  /**
+   * Don't visit the children of this fiber (pre-order), or stop walking up.
+   * Has no effect in post-order, where the children were already visited.
+   */
+  skip: () => void;
+}
+
+interface FiberWalkFrame {
+  fiber: Fiber;
+  depth: number;
+  parentFrame: FiberWalkFrame | null;
+}
+
+const createFiberWalkEntry = (
+  frame: FiberWalkFrame,
+  onSkip: () => void,
+): FiberWalkEntry => ({
+  fiber: frame.fiber,
+  depth: frame.depth,
+  parent: frame.parentFrame?.fiber ?? null,
+  get path() {
+    const path: Fiber[] = [];
+    let currentFrame: FiberWalkFrame | null = frame;
+    while (currentFrame) {
+      path.push(currentFrame.fiber);
+      currentFrame = currentFrame.parentFrame;
+    }
+    return path.reverse();
+  },
+  skip: onSkip,
+});
+
+/**
+ * Iterates over a {@link Fiber} and its subtree (or its ancestors when `ascending`) without recursion, so it works on trees of any depth.
+ *
+ * @example
+ * for (const { fiber, depth, skip } of walkFiber(root.current)) {
+ *   if (isHostFiber(fiber)) skip();
+ * }
+ */
+export function* walkFiber(
+  fiber: Fiber,
+  options: WalkFiberOptions = {},
+): Generator<FiberWalkEntry, void, undefined> {
+  const {
+    order = 'pre',
+    ascending = false,
+    maxDepth = Number.POSITIVE_INFINITY,
+    portals = 'include',
+  } = options;
+
+  if (ascending) {
+    let frame: FiberWalkFrame | null = { fiber, depth: 0, parentFrame: null };
+    const ancestors: FiberWalkFrame[] = [];
+    while (frame && frame.depth <= maxDepth) {
+      const isPortalBoundary =
+        frame.depth > 0 && portals !== 'include' && isPortalFiber(frame.fiber);
+      if (isPortalBoundary && portals === 'exclude') break;
+      ancestors.push(frame);
+      if (isPortalBoundary) break;
+      const parent: Fiber | null = frame.fiber.return;
+      frame = parent
+        ? { fiber: parent, depth: frame.depth + 1, parentFrame: frame }
+        : null;
+    }
+    if (order === 'post') ancestors.reverse();
+    for (const ancestor of ancestors) {
+      let isSkipped = false;
+      yield createFiberWalkEntry(ancestor, () => {
+        isSkipped = true;
+      });
+      if (isSkipped) return;
+    }
+    return;
+  }
+
+  const stack: Array<{ frame: FiberWalkFrame; isExpanded: boolean }> = [
+    { frame: { fiber, depth: 0, parentFrame: null }, isExpanded: false },
+  ];
+
+  while (stack.length) {
+    const item = stack.pop();
+    if (!item) break;
+    const { frame, isExpanded } = item;
+
+    if (isExpanded) {
+      // post-order: every child has been visited
+      yield createFiberWalkEntry(frame, () => {});
+      continue;
+    }
+
+    let isSkipped = false;
+    if (order === 'pre') {
+      yield createFiberWalkEntry(frame, () => {
+        isSkipped = true;
+      });
+    } else {
+      stack.push({ frame, isExpanded: true });
+    }
+    if (isSkipped || frame.depth >= maxDepth) continue;
+    if (portals === 'stop' && frame.depth > 0 && isPortalFiber(frame.fiber)) {
+      continue;
+    }
+
+    // push in reverse so the first child is visited first
+    const children: FiberWalkFrame[] = [];
+    let child = frame.fiber.child;
+    while (child) {
+      if (portals === 'exclude' && isPortalFiber(child)) {
+        child = child.sibling;
+        continue;
+      }
+      children.push({
+        fiber: child,
+        depth: frame.depth + 1,
+        parentFrame: frame,
+      });
+      child = child.sibling;
+    }
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ frame: children[i], isExpanded: false });
+    }
+  }
+}
+
+/**
+ * Traverses up or down a {@link Fiber}, return `true` to stop and select a node.
+ */
+export const traverseFiber = (
+  fiber: Fiber | null,
+  // biome-ignore lint/suspicious/noConfusingVoidType: may or may not exist
+  selector: (node: Fiber) => boolean | void,
+  ascending = false,
+  portals: PortalMode = 'include',
+): Fiber | null => {
+  if (!fiber) return null;
+  for (const { fiber: node } of walkFiber(fiber, { ascending, portals })) {
+    if (selector(node) === true) return node;
+  }
+  return null;
+};
+
+interface FiberSelectorAttribute {
+  // `['key']` or the path of a prop, e.g. `['prop', 'id']`
+  path: string[];
+  value?: unknown;
+  // `[key]` and `[prop.id]` only check that the attribute exists
+  hasValue: boolean;
+}
+
+type FiberSelectorPseudo =
+  | { name: 'host' | 'composite' | 'suspended' }
+  | { name: 'nth-child'; a: number; b: number };
+
+interface FiberSelectorCompound {
+  // `null` matches any fiber (`*`)
+  name: string | null;
+  attributes: FiberSelectorAttribute[];
+  pseudos: FiberSelectorPseudo[];
+  // how this compound relates to the one before it
+  combinator: 'child' | 'descendant' | null;
+}
+
+// least recently used selectors are evicted first, so selectors built from
+// data can't grow the cache without bound
+const FIBER_SELECTOR_CACHE_SIZE = 100;
+const fiberSelectorCache = new Map<string, FiberSelectorCompound[][]>();
+
+const IDENTIFIER_CHAR_REGEX = /[\w$.-]/;
+const NTH_CHILD_REGEX = /^([+-]?\d*)n\s*(?:([+-])\s*(\d+))?$/;
+
+const parseAttributeValue = (rawValue: string): unknown => {
+  if (rawValue === 'true') return true;
+  if (rawValue === 'false') return false;
+  if (rawValue === 'null') return null;
+  if (rawValue === 'undefined') return undefined;
+  if (rawValue !== '' && !Number.isNaN(Number(rawValue))) {
+    return Number(rawValue);
+  }
+  return rawValue;
+};
+
+const parseNthChild = (rawValue: string): { a: number; b: number } | null => {
+  const value = rawValue.trim();
+  if (value === 'odd') return { a: 2, b: 1 };
+  if (value === 'even') return { a: 2, b: 0 };
+  if (/^[+-]?\d+$/.test(value)) return { a: 0, b: Number(value) };
+  const match = NTH_CHILD_REGEX.exec(value);
+  if (!match) return null;
+  const [, rawA, sign, rawB] = match;
+  const a = rawA === '' || rawA === '+' ? 1 : rawA === '-' ? -1 : Number(rawA);
+  const b = rawB ? Number(rawB) * (sign === '-' ? -1 : 1) : 0;
+  return { a, b };
+};
+
+const parseFiberSelector = (selector: string): FiberSelectorCompound[][] => {
+  const cached = fiberSelectorCache.get(selector);
+  if (cached) {
+    fiberSelectorCache.delete(selector);
+    fiberSelectorCache.set(selector, cached);
+    return cached;
+  }
+
+  let index = 0;
+  const fail: (reason: string) => never = (reason) => {
+    throw new SyntaxError(
+      `Invalid fiber selector "${selector}" at ${index}: ${reason}`,
+    );
+  };
+  const skipWhitespace = () => {
+    while (index < selector.length && /\s/.test(selector[index])) index++;
+  };
+  const readIdentifier = () => {
+    const start = index;
+    while (
+      index < selector.length &&
+      IDENTIFIER_CHAR_REGEX.test(selector[index])
+    ) {
+      index++;
+    }
+    return selector.slice(start, index);
+  };
+
+  const readAttribute = (): FiberSelectorAttribute => {
+    index++; // [
+    skipWhitespace();
+    const name = readIdentifier();
+    const path = name.split('.');
+    if (path[0] === 'key' ? path.length !== 1 : path[0] !== 'prop') {
+      fail(`unknown attribute "${name}", expected "key" or "prop.<name>"`);
+    }
+    if (path[0] === 'prop' && path.length < 2) fail('missing prop name');
+    skipWhitespace();
+
+    const attribute: FiberSelectorAttribute = { path, hasValue: false };
+    if (selector[index] === '=') {
+      index++;
+      skipWhitespace();
+      const quote = selector[index];
+      if (quote === '"' || quote === "'") {
+        index++;
+        let value = '';
+        while (index < selector.length && selector[index] !== quote) {
+          if (selector[index] === '\\') index++;
+          value += selector[index++];
+        }
+        if (selector[index] !== quote) fail('unterminated string');
+        index++;
+        attribute.value = value;
+      } else {
+        const start = index;
+        while (index < selector.length && selector[index] !== ']') index++;
+        attribute.value = parseAttributeValue(
+          selector.slice(start, index).trim(),
+        );
+      }
+      attribute.hasValue = true;
+      skipWhitespace();
+    }
+    if (selector[index] !== ']') fail('expected "]"');
+    index++;
+    return attribute;
+  };
+
+  const readPseudo = (): FiberSelectorPseudo => {
+    index++; // :
+    const name = readIdentifier();
+    if (name === 'host' || name === 'composite' || name === 'suspended') {
+      return { name };
+    }
+    if (name !== 'nth-child') fail(`unknown pseudo-class ":${name}"`);
+    if (selector[index] !== '(') fail('expected "(" after ":nth-child"');
+    const end = selector.indexOf(')', index);
+    if (end === -1) fail('expected ")"');
+    const nth = parseNthChild(selector.slice(index + 1, end));
+    if (!nth) fail('invalid ":nth-child" argument');
+    index = end + 1;
+    return { name: 'nth-child', ...nth };
+  };
+
+  const readCompound = (
+    combinator: FiberSelectorCompound['combinator'],
+  ): FiberSelectorCompound => {
+    const compound: FiberSelectorCompound = {
+      name: null,
+      attributes: [],
+      pseudos: [],
+      combinator,
+    };
+    const start = index;
+    if (selector[index] === '*') {
+      index++;
+    } else {
+      compound.name = readIdentifier() || null;
+    }
+    while (index < selector.length) {
+      if (selector[index] === '[') {
+        compound.attributes.push(readAttribute());
+      } else if (selector[index] === ':') {
+        compound.pseudos.push(readPseudo());
+      } else {
+        break;
+      }
+    }
+    if (index === start) fail('expected a selector');
+    return compound;
+  };
+
+  const selectors: FiberSelectorCompound[][] = [];
+  let compounds: FiberSelectorCompound[] = [];
+  let combinator: FiberSelectorCompound['combinator'] = null;
+  let expectsCompound = true;
+  skipWhitespace();
+  while (index < selector.length) {
+    compounds.push(readCompound(combinator));
+    expectsCompound = false;
+    const hadWhitespace = /\s/.test(selector[index] ?? '');
+    skipWhitespace();
+    if (index >= selector.length) break;
+    if (selector[index] === ',') {
+      index++;
+      skipWhitespace();
+      selectors.push(compounds);
+      compounds = [];
+      combinator = null;
+      expectsCompound = true;
+    } else if (selector[index] === '>') {
+      index++;
+      skipWhitespace();
+      combinator = 'child';
+      expectsCompound = true;
+    } else if (hadWhitespace) {
+      combinator = 'descendant';
+    } else {
+      fail(`unexpected "${selector[index]}"`);
+    }
+  }
+  if (expectsCompound) fail('unexpected end of selector');
+  selectors.push(compounds);
+
+  fiberSelectorCache.set(selector, selectors);
+  if (fiberSelectorCache.size > FIBER_SELECTOR_CACHE_SIZE) {
+    fiberSelectorCache.delete(fiberSelectorCache.keys().next().value as string);
+  }
+  return selectors;
+};
+
+const getFiberChildIndex = (fiber: Fiber) => {
+  let position = 1;
+  let sibling = fiber.return?.child ?? null;
+  while (sibling && sibling !== fiber && sibling !== fiber.alternate) {
+    position++;
+    sibling = sibling.sibling;
+  }
+  return position;
+};
+
+const matchesFiberSelectorCompound = (
+  fiber: Fiber,
+  compound: FiberSelectorCompound,
+) => {
+  if (compound.name !== null) {
+    const name =
+      typeof fiber.type === 'string' ? fiber.type : getDisplayName(fiber.type);
+    if (name !== compound.name) return false;
+  }
+  for (const attribute of compound.attributes) {
+    let value: unknown;
+    if (attribute.path[0] === 'key') {
+      value = fiber.key ?? undefined;
+    } else {
+      value = fiber.memoizedProps;
+      for (let i = 1; i < attribute.path.length; i++) {
+        value = (value as Record<string, unknown> | null)?.[attribute.path[i]];
+      }
+    }
+    if (!attribute.hasValue) {
+      if (value === undefined) return false;
+    } else if (attribute.path[0] === 'key') {
+      if (value !== String(attribute.value)) return false;
+    } else if (!Object.is(value, attribute.value)) {
+      return false;
+    }
+  }
+  for (const pseudo of compound.pseudos) {
+    switch (pseudo.name) {
+      case 'host':
+        if (!isHostFiber(fiber)) return false;
+        break;
+      case 'composite':
+        if (!isCompositeFiber(fiber)) return false;
+        break;
+      case 'suspended':
+        if (
+          getFiberTagName(fiber) !== 'SuspenseComponent' ||
+          fiber.memoizedState === null
+        ) {
+          return false;
+        }
+        break;
+      case 'nth-child': {
+        const offset = getFiberChildIndex(fiber) - pseudo.b;
+        const isMatch =
+          pseudo.a === 0
+            ? offset === 0
+            : offset % pseudo.a === 0 && offset / pseudo.a >= 0;
+        if (!isMatch) return false;
+        break;
+      }
+    }
+  }
+  return true;
+};
+
+// Matches right to left, like CSS. Ancestors outside of `scope` are not considered.
+const matchesFiberSelector = (
+  fiber: Fiber,
+  compounds: FiberSelectorCompound[],
+  scope: Fiber,
+) => {
+  const matchFrom = (currentFiber: Fiber, index: number): boolean => {
+    if (!matchesFiberSelectorCompound(currentFiber, compounds[index])) {
+      return false;
+    }
+    if (index === 0) return true;
+    const { combinator } = compounds[index];
+    let ancestor = currentFiber === scope ? null : currentFiber.return;
+    while (ancestor) {
+      if (matchFrom(ancestor, index - 1)) return true;
+      if (combinator === 'child' || ancestor === scope) return false;
+      ancestor = ancestor.return;
+    }
+    return false;
+  };
+  return matchFrom(fiber, compounds.length - 1);
+};
+
+const matchesAnyFiberSelector = (
+  fiber: Fiber,
+  selectors: FiberSelectorCompound[][],
+  scope: Fiber,
+) =>
+  selectors.some((compounds) => matchesFiberSelector(fiber, compounds, scope));
+
+/**
+ * Returns every {@link Fiber} in the tree that matches a CSS-like selector, in tree order.
+ *
+ * Supports display names (or host types like `div`) and `*`, descendant and `>` child combinators, `,` lists, `[key="x"]`, `[prop.id=3]` and the `:host`, `:composite`, `:suspended` and `:nth-child()` pseudo-classes.
+ *
+ * @example
+ * queryAllFibers(root, 'TodoList > TodoItem[prop.done=true] div:host');
+ */
+export const queryAllFibers = (
+  root: Fiber | FiberRoot,
+  selector: string,
+): Fiber[] => {
+  const scope = 'current' in root ? root.current : root;
+  const selectors = parseFiberSelector(selector);
+  const matches: Fiber[] = [];
+  for (const { fiber } of walkFiber(scope)) {
+    if (matchesAnyFiberSelector(fiber, selectors, scope)) {
+      matches.push(fiber);
+    }
+  }
+  return matches;
+};
+
+/**
+ * Returns the first {@link Fiber} in the tree that matches a CSS-like selector. See {@link queryAllFibers} for the syntax.
+ *
+ * @example
+ * queryFiber(root, 'Button[key="submit"]');
+ */
+export const queryFiber = (
+  root: Fiber | FiberRoot,
+  selector: string,
+): Fiber | null => {
+  const scope = 'current' in root ? root.current : root;
+  const selectors = parseFiberSelector(selector);
+  for (const { fiber } of walkFiber(scope)) {
+    if (matchesAnyFiberSelector(fiber, selectors, scope)) {
+      return fiber;
+    }
+  }
+  return null;
+};
+
+/**
+ * Returns `true` if the {@link Fiber} is a portal (`createPortal`).
+ */
+export const isPortalFiber = (fiber: Fiber) =>
+  getFiberTagName(fiber) === 'HostPortal';
+
+/**
+ * Returns the container of the nearest portal the {@link Fiber} renders into (e.g. the `document.body` of a modal), or `null` if it isn't inside a portal.
+ */
+export const getPortalContainer = (fiber: Fiber): Element | null => {
+  const portal = traverseFiber(fiber, isPortalFiber, true);
+  return portal?.stateNode?.containerInfo ?? null;
+};
+
+/**
+ * Returns `true` if the host nodes of the {@link Fiber} live in a portal, outside of the root container.
+ */
+export const isFiberInPortal = (fiber: Fiber) =>
+  getPortalContainer(fiber) !== null;
+
+/**
+ * Returns the container the host nodes of the {@link Fiber} are rendered into: the nearest portal container, or the root container.
+ */
+export const getFiberContainer = (fiber: Fiber): Element | null => {
+  const container = traverseFiber(
+    fiber,
+    (node) => isPortalFiber(node) || getFiberTagName(node) === 'HostRoot',
+    true,
+  );
+  return container?.stateNode?.containerInfo ?? null;
+};
+
+/**
+ * Returns the composite {@link Fiber} that created the element of this fiber (its owner), which is not necessarily its parent. Owners are only tracked in development builds, so this returns `null` in production.
+ */
+export const getOwner = (fiber: Fiber): Fiber | null => {
+  const owner: unknown = fiber._debugOwner;
+  // react 19 also stores server components here, which aren't fibers
+  return isValidFiber(owner) ? owner : null;
+};
+
+/**
+ * Traverses up the owners of a {@link Fiber}, return `true` to stop and select an owner.
+ */
+export const traverseOwners = (
+  fiber: Fiber,
+  // biome-ignore lint/suspicious/noConfusingVoidType: may or may not exist
+  selector: (owner: Fiber) => boolean | void,
+): Fiber | null => {
+  const visited = new Set<Fiber>();
+  let owner = getOwner(fiber);
+  while (owner && !visited.has(owner)) {
+    if (selector(owner) === true) return owner;
+    visited.add(owner);
+    owner = getOwner(owner);
+  }
+  return null;
+};
+
+/**
+ * Returns the owners of a {@link Fiber}, from the outermost owner to the direct owner. Empty in production builds.
+ *
+ * @example
+ * ```ts
+ * getOwnerStack(fiber).map((owner) => getDisplayName(owner.type)).join(' > ');
+ * // 'App > TodoList > TodoItem'
+ * ```
+ */
+export const getOwnerStack = (fiber: Fiber): Fiber[] => {
+  const owners: Fiber[] = [];
+  traverseOwners(fiber, (owner) => {
+    owners.push(owner);
+  });
+  return owners.reverse();
+};
+
+/**
+ * Returns every {@link Fiber} in the subtree that the composite {@link Fiber} created, i.e. that it owns. Children passed in through props are owned by whoever created them. Empty in production builds.
+ */
+export const getFibersRenderedBy = (owner: Fiber): Fiber[] => {
+  const fibers: Fiber[] = [];
+  for (const { fiber } of walkFiber(owner)) {
+    if (fiber === owner) continue;
+    const fiberOwner = getOwner(fiber);
+    if (
+      fiberOwner &&
+      (fiberOwner === owner || fiberOwner === owner.alternate)
+    ) {
+      fibers.push(fiber);
+    }
+  }
+  return fibers;
+};
+
+/**
+ * Returns the timings of the {@link Fiber}.
+ *
+ * @example
+ * ```ts
+ * const { selfTime, totalTime } = getTimings(fiber);
+ * console.log(selfTime, totalTime);
+ * ```
+ */
+export const getTimings = (fiber?: Fiber | null | undefined) => {
+  const totalTime = fiber?.actualDuration ?? 0;
+  let selfTime = totalTime;
+  // TODO: calculate a DOM time, which is just host component summed up
+  let child = fiber?.child ?? null;
+  while (totalTime > 0 && child != null) {
+    selfTime -= child.actualDuration ?? 0;
+    child = child.sibling;
+  }
+  return { selfTime, totalTime };
+};
+
+/**
+ * Returns `true` if the {@link Fiber} uses React Compiler's memo cache.
+ */
+export const hasMemoCache = (fiber: Fiber) => {
+  return Boolean(
+    (fiber.updateQueue as unknown as { memoCache: unknown })?.memoCache,
+  );
+};
+
+type FiberType =
+  | React.ComponentType<unknown>
+  | React.ForwardRefExoticComponent<unknown>
+  | React.MemoExoticComponent<React.ComponentType<unknown>>;
+
+/**
+ * Returns the type (e.g. component definition) of the {@link Fiber}
+ */
+export const getType = (type: unknown): React.ComponentType<unknown> | null => {
+  const currentType = type as FiberType;
+  if (typeof currentType === 'function') {
+    return currentType;
+  }
+  if (typeof currentType === 'object' && currentType) {
+    // memo / forwardRef case
+    return getType(
+      (currentType as React.MemoExoticComponent<React.ComponentType<unknown>>)
+        .type ||
+        (currentType as { render: React.ComponentType<unknown> }).render,
+    );
+  }
+  return null;
+};
+
+/**
+ * Returns the display name of the {@link Fiber}.
+ */
+export const getDisplayName = (type: unknown): string | null => {
+  const currentType = type as FiberType;
+  if (
+    typeof currentType !== 'function' &&
+    !(typeof currentType === 'object' && currentType)
+  ) {
+    return null;
+  }
+  const name = currentType.displayName || currentType.name || null;
+  if (name) return name;
+  const unwrappedType = getType(currentType);
+  if (!unwrappedType) return null;
+  return unwrappedType.displayName || unwrappedType.name || null;
+};
+
+/**
+ * Returns the build type of the React renderer.
+ */
+export const detectReactBuildType = (renderer: ReactRenderer) => {
+  try {
+    if (typeof renderer.version === 'string' && renderer.bundleType > 0) {
+      return 'development';
+    }
+  } catch {}
+  return 'production';
+};
+
+export interface RendererDescriptor {
+  id: number;
+  packageName: string | null;
+  version: string;
+  reconcilerVersion: string | null;
+  bundleType: ReactRenderer['bundleType'];
+  buildType: ReturnType<typeof detectReactBuildType>;
+  renderer: ReactRenderer;
+}
+
+// built once per injected renderer, and again if the ID gets a new renderer
+const rendererDescriptorCache = new Map<number, RendererDescriptor>();
+
+/**
+ * Returns the {@link RendererDescriptor} of an injected renderer, or `null` if no renderer has the ID.
+ */
+export const getRendererDescriptor = (
+  rendererID: number,
+): RendererDescriptor | null => {
+  const renderer = getRDTHook().renderers.get(rendererID);
+  if (!renderer) return null;
+  let descriptor = rendererDescriptorCache.get(rendererID);
+  if (descriptor?.renderer !== renderer) {
+    descriptor = {
+      id: rendererID,
+      packageName: renderer.rendererPackageName ?? null,
+      version: renderer.version,
+      reconcilerVersion: renderer.reconcilerVersion ?? null,
+      bundleType: renderer.bundleType,
+      buildType: detectReactBuildType(renderer),
+      renderer,
+    };
+    rendererDescriptorCache.set(rendererID, descriptor);
+  }
+  return descriptor;
+};
+
+/**
+ * Returns a {@link RendererDescriptor} for every renderer injected into the hook (react-dom, react-three-fiber, etc.)
+ */
+export const getRendererDescriptors = (): RendererDescriptor[] => {
+  const descriptors: RendererDescriptor[] = [];
+  for (const rendererID of getRDTHook().renderers.keys()) {
+    const descriptor = getRendererDescriptor(rendererID);
+    if (descriptor) descriptors.push(descriptor);
+  }
+  return descriptors;
+};
+
+const parseVersion = (version: string): [number, number, number] => {
+  const [major = 0, minor = 0, patch = 0] = version
+    .replace(/^[^\d]*/, '')
+    .split(/[.+-]/)
+    .map(Number);
+  return [major || 0, minor || 0, patch || 0];
+};
+
+const compareVersions = (a: number[], b: number[]) => {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+};
+
+const VERSION_COMPARATOR_REGEX =
+  /^(>=|<=|>|<|=|\^|~)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?/;
+
+const satisfiesVersionComparator = (version: number[], comparator: string) => {
+  if (comparator === '*' || comparator === '') return true;
+  const match = comparator.match(VERSION_COMPARATOR_REGEX);
+  if (!match) return false;
+  const [, operator = '=', ...rawParts] = match;
+  const [major, minor, patch] = rawParts.map((part) =>
+    part === undefined || /[xX*]/.test(part) ? null : Number(part),
+  );
+  if (major === null) return true;
+
+  const lower = [major, minor ?? 0, patch ?? 0];
+  // partial versions are ranges, e.g. `18` is `>=18.0.0 <19.0.0`
+  const upper =
+    minor === null
+      ? [major + 1, 0, 0]
+      : patch === null
+        ? [major, minor + 1, 0]
+        : null;
+  const compareLower = compareVersions(version, lower);
+
+  switch (operator) {
+    case '>=':
+      return compareLower >= 0;
+    case '>':
+      return upper ? compareVersions(version, upper) >= 0 : compareLower > 0;
+    case '<':
+      return compareLower < 0;
+    case '<=':
+      return upper ? compareVersions(version, upper) < 0 : compareLower <= 0;
+    case '^': {
+      const caretUpper =
+        major > 0 || minor === null
+          ? [major + 1, 0, 0]
+          : minor > 0 || patch === null
+            ? [0, minor + 1, 0]
+            : [0, 0, patch + 1];
+      return compareLower >= 0 && compareVersions(version, caretUpper) < 0;
+    }
+    case '~': {
+      const tildeUpper =
+        minor === null ? [major + 1, 0, 0] : [major, minor + 1, 0];
+      return compareLower >= 0 && compareVersions(version, tildeUpper) < 0;
+    }
+    default:
+      return upper
+        ? compareLower >= 0 && compareVersions(version, upper) < 0
+        : compareLower === 0;
+  }
+};
+
+/**
+ * Returns `true` if the version satisfies a semver-like range, e.g. `^18.2.0`, `>=17 <19` or `18.x || 19.x`.
+ */
+export const satisfiesVersionRange = (version: string, range: string) => {
+  const parsedVersion = parseVersion(version);
+  return range.split('||').some((comparatorSet) =>
+    comparatorSet
+      .trim()
+      .replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1')
+      .split(/\s+/)
+      .every((comparator) =>
+        satisfiesVersionComparator(parsedVersion, comparator),
+      ),
+  );
+};
+
+/**
+ * Selects renderers by ID, package name (e.g. `'react-dom'`), descriptor fields or a predicate. Arrays match any of their selectors.
+ */
+export type RendererSelector =
+  | number
+  | string
+  | {
+      id?: number;
+      packageName?: string;
+      /**
+       * Semver-like range, e.g. `>=18`
+       */
+      version?: string;
+      buildType?: RendererDescriptor['buildType'];
+    }
+  | ((descriptor: RendererDescriptor) => boolean)
+  | RendererSelector[];
+
+/**
+ * Returns `true` if the renderer matches the {@link RendererSelector}.
+ */
+export const isRendererMatch = (
+  descriptor: RendererDescriptor,
+  selector: RendererSelector,
+): boolean => {
+  if (Array.isArray(selector)) {
+    return selector.some((childSelector) =>
+      isRendererMatch(descriptor, childSelector),
+    );
+  }
+  switch (typeof selector) {
+    case 'number':
+      return descriptor.id === selector;
+    case 'string':
+      return descriptor.packageName === selector;
+    case 'function':
+      return selector(descriptor);
+  }
+  return (
+    (selector.id === undefined || descriptor.id === selector.id) &&
+    (selector.packageName === undefined ||
+      descriptor.packageName === selector.packageName) &&
+    (selector.version === undefined ||
+      satisfiesVersionRange(descriptor.version, selector.version)) &&
+    (selector.buildType === undefined ||
+      descriptor.buildType === selector.buildType)
+  );
+};
+
+type BitTable = [name: string, bit: number][];
+
+// lanes that share a name are numbered in bit order, e.g. `TransitionLane1`
+const createLaneTable = (lanes: [name: string, count: number][]) => {
+  const table: BitTable = [];
+  let bit = 0;
+  for (const [name, count] of lanes) {
+    for (let i = 1; i <= count; i++) {
+      table.push([count > 1 ? `${name}${i}` : name, 1 << bit++]);
+    }
+  }
+  return table;
+};
+
+// https://github.com/facebook/react/blob/v17.0.2/packages/react-reconciler/src/ReactFiberFlags.js
+const REACT_17_FLAGS: BitTable = [
+  ['PerformedWork', 1 << 0],
+  ['Placement', 1 << 1],
+  ['Update', 1 << 2],
+  ['Deletion', 1 << 3],
+  ['ContentReset', 1 << 4],
+  ['Callback', 1 << 5],
+  ['DidCapture', 1 << 6],
+  ['Ref', 1 << 7],
+  ['Snapshot', 1 << 8],
+  ['Passive', 1 << 9],
+  ['Hydrating', 1 << 10],
+  ['Incomplete', 1 << 11],
+  ['ShouldCapture', 1 << 12],
+  ['PassiveUnmountPendingDev', 1 << 13],
+  ['ForceUpdateForLegacySuspense', 1 << 14],
+];
+
+// https://github.com/facebook/react/blob/v18.3.1/packages/react-reconciler/src/ReactFiberFlags.js
+const REACT_18_FLAGS: BitTable = [
+  ['PerformedWork', 1 << 0],
+  ['Placement', 1 << 1],
+  ['Update', 1 << 2],
+  ['ChildDeletion', 1 << 4],
+  ['ContentReset', 1 << 5],
+  ['Callback', 1 << 6],
+  ['DidCapture', 1 << 7],
+  ['ForceClientRender', 1 << 8],
+  ['Ref', 1 << 9],
+  ['Snapshot', 1 << 10],
+  ['Passive', 1 << 11],
+  ['Hydrating', 1 << 12],
+  ['Visibility', 1 << 13],
+  ['StoreConsistency', 1 << 14],
+  ['Incomplete', 1 << 15],
+  ['ShouldCapture', 1 << 16],
+  ['ForceUpdateForLegacySuspense', 1 << 17],
+  ['DidPropagateContext', 1 << 18],
+  ['NeedsPropagation', 1 << 19],
+  ['Forked', 1 << 20],
+  ['RefStatic', 1 << 21],
+  ['LayoutStatic', 1 << 22],
+  ['PassiveStatic', 1 << 23],
+  ['MountLayoutDev', 1 << 24],
+  ['MountPassiveDev', 1 << 25],
+];
+
+// https://github.com/facebook/react/blob/v19.0.0/packages/react-reconciler/src/ReactFiberFlags.js
+const REACT_19_FLAGS: BitTable = [
+  ['PerformedWork', 1 << 0],
+  ['Placement', 1 << 1],
+  ['Update', 1 << 2],
+  ['Cloned', 1 << 3],
+  ['ChildDeletion', 1 << 4],
+  ['ContentReset', 1 << 5],
+  ['Callback', 1 << 6],
+  ['DidCapture', 1 << 7],
+  ['ForceClientRender', 1 << 8],
+  ['Ref', 1 << 9],
+  ['Snapshot', 1 << 10],
+  ['Passive', 1 << 11],
+  ['Hydrating', 1 << 12],
+  ['Visibility', 1 << 13],
+  ['StoreConsistency', 1 << 14],
+  ['Incomplete', 1 << 15],
+  ['ShouldCapture', 1 << 16],
+  ['ForceUpdateForLegacySuspense', 1 << 17],
+  ['DidPropagateContext', 1 << 18],
+  ['NeedsPropagation', 1 << 19],
+  ['Forked', 1 << 20],
+  ['RefStatic', 1 << 21],
+  ['LayoutStatic', 1 << 22],
+  ['PassiveStatic', 1 << 23],
+  ['MaySuspendCommit', 1 << 24],
+  ['PlacementDEV', 1 << 25],
+  ['MountLayoutDev', 1 << 26],
+  ['MountPassiveDev', 1 << 27],
+];
+
+// https://github.com/facebook/react/blob/v17.0.2/packages/react-reconciler/src/ReactFiberLane.js
+const REACT_17_LANES = createLaneTable([
+  ['SyncLane', 1],
+  ['SyncBatchedLane', 1],
+  ['InputDiscreteHydrationLane', 1],
+  ['InputDiscreteLane', 2],
+  ['InputContinuousHydrationLane', 1],
+  ['InputContinuousLane', 2],
+  ['DefaultHydrationLane', 1],
+  ['DefaultLane', 3],
+  ['TransitionHydrationLane', 1],
+  ['TransitionLane', 9],
+  ['RetryLane', 4],
+  ['SelectiveHydrationLane', 1],
+  ['IdleHydrationLane', 1],
+  ['IdleLane', 2],
+  ['OffscreenLane', 1],
+]);
+
+// https://github.com/facebook/react/blob/v18.3.1/packages/react-reconciler/src/ReactFiberLane.js
+const REACT_18_LANES = createLaneTable([
+  ['SyncLane', 1],
+  ['InputContinuousHydrationLane', 1],
+  ['InputContinuousLane', 1],
+  ['DefaultHydrationLane', 1],
+  ['DefaultLane', 1],
+  ['TransitionHydrationLane', 1],
+  ['TransitionLane', 16],
+  ['RetryLane', 5],
+  ['SelectiveHydrationLane', 1],
+  ['IdleHydrationLane', 1],
+  ['IdleLane', 1],
+  ['OffscreenLane', 1],
+]);
+
+// https://github.com/facebook/react/blob/v19.0.0/packages/react-reconciler/src/ReactFiberLane.js
+const REACT_19_LANES = createLaneTable([
+  ['SyncHydrationLane', 1],
+  ['SyncLane', 1],
+  ['InputContinuousHydrationLane', 1],
+  ['InputContinuousLane', 1],
+  ['DefaultHydrationLane', 1],
+  ['DefaultLane', 1],
+  ['TransitionHydrationLane', 1],
+  ['TransitionLane', 15],
+  ['RetryLane', 4],
+  ['SelectiveHydrationLane', 1],
+  ['IdleHydrationLane', 1],
+  ['IdleLane', 1],
+  ['OffscreenLane', 1],
+  ['DeferredLane', 1],
+]);
+
+// https://github.com/facebook/react/blob/v17.0.2/packages/react-reconciler/src/ReactTypeOfMode.js
+const REACT_17_MODES: BitTable = [
+  ['StrictMode', 1 << 0],
+  ['BlockingMode', 1 << 1],
+  ['ConcurrentMode', 1 << 2],
+  ['ProfileMode', 1 << 3],
+  ['DebugTracingMode', 1 << 4],
+];
+
+// https://github.com/facebook/react/blob/v18.3.1/packages/react-reconciler/src/ReactTypeOfMode.js
+const REACT_18_MODES: BitTable = [
+  ['ConcurrentMode', 1 << 0],
+  ['ProfileMode', 1 << 1],
+  ['DebugTracingMode', 1 << 2],
+  ['StrictLegacyMode', 1 << 3],
+  ['StrictEffectsMode', 1 << 4],
+  ['ConcurrentUpdatesByDefaultMode', 1 << 5],
+];
+
+// https://github.com/facebook/react/blob/v19.0.0/packages/react-reconciler/src/ReactTypeOfMode.js
+const REACT_19_MODES: BitTable = [
+  ['ConcurrentMode', 1 << 0],
+  ['ProfileMode', 1 << 1],
+  ['StrictLegacyMode', 1 << 3],
+  ['StrictEffectsMode', 1 << 4],
+  ['NoStrictPassiveEffectsMode', 1 << 6],
+];
+
+interface HookEffectTags {
+  HasEffect: number;
+  Insertion: number;
+  Layout: number;
+  Passive: number;
+}
+
+// https://github.com/facebook/react/blob/v17.0.2/packages/react-reconciler/src/ReactHookEffectTags.js
+const REACT_17_HOOK_EFFECT_TAGS: HookEffectTags = {
+  HasEffect: 0b1,
+  // insertion effects were added in react 18
+  Insertion: 0,
+  Layout: 0b10,
+  Passive: 0b100,
+};
+
+// https://github.com/facebook/react/blob/v18.3.1/packages/react-reconciler/src/ReactHookEffectTags.js
+const REACT_18_HOOK_EFFECT_TAGS: HookEffectTags = {
+  HasEffect: 0b1,
+  Insertion: 0b10,
+  Layout: 0b100,
+  Passive: 0b1000,
+};
+
+const BIT_TABLES = {
+  17: {
+    flags: REACT_17_FLAGS,
+    lanes: REACT_17_LANES,
+    modes: REACT_17_MODES,
+    hookEffectTags: REACT_17_HOOK_EFFECT_TAGS,
+  },
+  18: {
+    flags: REACT_18_FLAGS,
+    lanes: REACT_18_LANES,
+    modes: REACT_18_MODES,
+    hookEffectTags: REACT_18_HOOK_EFFECT_TAGS,
+  },
+  19: {
+    flags: REACT_19_FLAGS,
+    lanes: REACT_19_LANES,
+    modes: REACT_19_MODES,
+    hookEffectTags: REACT_18_HOOK_EFFECT_TAGS,
+  },
+};
+
+// defaults to the first injected renderer, falling back to the latest tables
+const getBitTables = (version?: string) => {
+  let resolvedVersion = version;
+  if (resolvedVersion === undefined && hasRDTHook()) {
+    resolvedVersion = getRDTHook().renderers.values().next().value?.version;
+  }
+  const [major] = resolvedVersion ? parseVersion(resolvedVersion) : [0];
+  if (!major || major >= 19) return BIT_TABLES[19];
+  if (major === 18) return BIT_TABLES[18];
+  return BIT_TABLES[17];
+};
+
+// bits that moved between versions, e.g. DidCapture was 1 << 6 before React 18
+const getFlagBit = (name: string, version?: string) => {
+  for (const [flagName, bit] of getBitTables(version).flags) {
+    if (flagName === name) return bit;
+  }
+  return 0;
+};
+
+const getBitNames = (value: number | null | undefined, table: BitTable) => {
+  const names: string[] = [];
+  if (!value) return names;
+  for (const [name, bit] of table) {
+    if (value & bit) names.push(name);
+  }
+  return names;
+};
+
+/**
+ * Returns the names of the set `flags` or `subtreeFlags` bits, e.g. `['Update', 'Passive']`. `version` defaults to the first renderer's React version.
+ */
+export const getFlagNames = (
+  flags: number | null | undefined,
+  version?: string,
+): string[] => getBitNames(flags, getBitTables(version).flags);
+
+/**
+ * Returns the names of the set `lanes` or `childLanes` bits, e.g. `['SyncLane', 'TransitionLane3']`. `version` defaults to the first renderer's React version.
+ */
+export const getLaneNames = (
+  lanes: number | null | undefined,
+  version?: string,
+): string[] => getBitNames(lanes, getBitTables(version).lanes);
+
+/**
+ * Returns the names of the set `mode` bits, e.g. `['ConcurrentMode', 'ProfileMode', 'StrictEffectsMode']`. `version` defaults to the first renderer's React version.
+ */
+export const getModeNames = (
+  mode: number | null | undefined,
+  version?: string,
+): string[] => getBitNames(mode, getBitTables(version).modes);
+
+export interface FiberBitNames {
+  flags: string[];
+  subtreeFlags: string[];
+  lanes: string[];
+  childLanes: string[];
+  mode: string[];
+}
+
+// fibers never move between roots, so the root found for a fiber is cached
+// for every fiber on the way up and later lookups stop at the first hit
+const fiberRootCache = new WeakMap<Fiber, FiberRoot>();
+const rootRendererIDCache = new WeakMap<FiberRoot, number>();
+
+const getCachedFiberRoot = (fiber: Fiber): FiberRoot | null => {
+  const path: Fiber[] = [];
+  let currentFiber = fiber;
+  let root = fiberRootCache.get(currentFiber);
+  while (!root) {
+    path.push(currentFiber);
+    if (!currentFiber.return) {
+      // HostRoot is 3 in every version, and the root is needed to resolve
+      // the renderer's tag table
+      if (currentFiber.tag !== HostRootTag) return null;
+      if (!isFiberRoot(currentFiber.stateNode)) return null;
+      root = currentFiber.stateNode;
+      break;
+    }
+    currentFiber = currentFiber.return;
+    root = fiberRootCache.get(currentFiber);
+  }
+  for (const pathFiber of path) {
+    fiberRootCache.set(pathFiber, root);
+  }
+  return root;
+};
+
+const getRendererFromFiber = (fiber: Fiber) => {
+  if (!hasRDTHook()) return undefined;
+  const rdtHook = getRDTHook();
+  const root = getCachedFiberRoot(fiber);
+  if (!root || !rdtHook._fiberRoots) return undefined;
+  // roots can be registered again under another ID, e.g. once a discovered
+  // root commits
+  let rendererID = rootRendererIDCache.get(root);
+  if (
+    rendererID === undefined ||
+    !rdtHook._fiberRoots.get(rendererID)?.has(root)
+  ) {
+    rendererID = undefined;
+    for (const [id, roots] of rdtHook._fiberRoots) {
+      if (roots.has(root)) {
+        rendererID = id;
+        break;
+      }
+    }
+    if (rendererID === undefined) return undefined;
+    rootRendererIDCache.set(root, rendererID);
+  }
+  return rdtHook.renderers.get(rendererID);
+};
+
+const getRendererVersionFromFiber = (fiber: Fiber) =>
+  getRendererFromFiber(fiber)?.version;
+
+/**
+ * Returns the decoded `flags`, `subtreeFlags`, `lanes`, `childLanes` and `mode` of a fiber. `version` defaults to the React version of the renderer that committed the fiber's root.
+ */
+export const getFiberBitNames = (
+  fiber: Fiber,
+  version = getRendererVersionFromFiber(fiber),
+): FiberBitNames => {
+  const { flags, lanes, modes } = getBitTables(version);
+  return {
+    flags: getBitNames(fiber.flags, flags),
+    subtreeFlags: getBitNames(fiber.subtreeFlags, flags),
+    lanes: getBitNames(fiber.lanes, lanes),
+    childLanes: getBitNames(fiber.childLanes, lanes),
+    mode: getBitNames(fiber.mode, modes),
+  };
+};
+
+/**
+ * Returns `true` if bippy's instrumentation is active.
+ */
+export const isInstrumentationActive = () => {
+  const rdtHook = getRDTHook();
+  return (
+    Boolean(rdtHook._instrumentationIsActive) ||
+    isRealReactDevtools() ||
+    isReactRefresh()
+  );
+};
+
+/**
+ * `hide` and `show` are reported when a subtree is hidden (Suspense fallback,
+ * Offscreen/Activity) or revealed again. Unlike `unmount`, hidden fibers keep
+ * their state.
+ */
+export type RenderPhase = 'mount' | 'update' | 'unmount' | 'hide' | 'show';
+
+export type RenderHandler = <S>(
+  fiber: Fiber,
+  phase: RenderPhase,
+  state?: S,
+) => unknown;
+
+let fiberId = 0;
+export const fiberIdMap = new WeakMap<Fiber, number>();
+
+export const setFiberId = (fiber: Fiber, id: number = fiberId++) => {
+  fiberIdMap.set(fiber, id);
+};
+
+// react fibers are double buffered, so the alternate fiber may
+// be switched to the current fiber and vice versa.
+// fiber === fiber.alternate.alternate
+export const getFiberId = (fiber: Fiber) => {
+  let id = fiberIdMap.get(fiber);
+  if (!id && fiber.alternate) {
+    id = fiberIdMap.get(fiber.alternate);
+  }
+  if (!id) {
+    id = fiberId++;
+    setFiberId(fiber, id);
+  }
+  return id;
+};
+
+export const mountFiberRecursively = (
+  onRender: RenderHandler,
+  firstChild: Fiber,
+  traverseSiblings: boolean,
+  // report fibers that didn't render in the last commit, e.g. when replaying an existing root
+  isSyntheticMount = false,
+) => {
+  let fiber: Fiber | null = firstChild;
+
+  while (fiber != null) {
+    if (!fiberIdMap.has(fiber)) {
+      getFiberId(fiber);
+    }
+    const shouldIncludeInTree = !shouldFilterFiber(fiber);
+    if (shouldIncludeInTree && (isSyntheticMount || didFiberRender(fiber))) {
+      onRender(fiber, 'mount');
+    }
+
+    if (getFiberTagName(fiber) === 'SuspenseComponent') {
+      const isTimedOut = fiber.memoizedState !== null;
+      if (isTimedOut) {
+        // Special case: if Suspense mounts in a timed-out state,
+        // get the fallback child from the inner fragment and mount
+        // it as if it was our own child. Updates handle this too.
+        const primaryChildFragment = fiber.child;
+        const fallbackChildFragment = primaryChildFragment
+          ? primaryChildFragment.sibling
+          : null;
+        if (fallbackChildFragment) {
+          const fallbackChild = fallbackChildFragment.child;
+          if (fallbackChild !== null) {
+            mountFiberRecursively(
+              onRender,
+              fallbackChild,
+              true,
+              isSyntheticMount,
+            );
+          }
+        }
+      } else {
+        let primaryChild: Fiber | null = null;
+        const areSuspenseChildrenConditionallyWrapped = !hasFiberTag(
+          fiber,
+          'OffscreenComponent',
+        );
+        if (areSuspenseChildrenConditionallyWrapped) {
+          primaryChild = fiber.child;
+        } else if (fiber.child !== null) {
+          primaryChild = fiber.child.child;
+        }
+        if (primaryChild !== null) {
+          mountFiberRecursively(onRender, primaryChild, true, isSyntheticMount);
+        }
+      }
+    } else if (fiber.child != null) {
+      mountFiberRecursively(onRender, fiber.child, true, isSyntheticMount);
+    }
+    fiber = traverseSiblings ? fiber.sibling : null;
+  }
+};
+
+export const updateFiberRecursively = (
+  onRender: RenderHandler,
+  nextFiber: Fiber,
+  prevFiber: Fiber,
+  parentFiber: Fiber | null,
+  reportedUnmounts: WeakSet<Fiber> = new WeakSet(),
+) => {
+  if (!fiberIdMap.has(nextFiber)) {
+    getFiberId(nextFiber);
+  }
+  if (!prevFiber) return;
+  if (!fiberIdMap.has(prevFiber)) {
+    getFiberId(prevFiber);
+  }
+
+  const isSuspense = getFiberTagName(nextFiber) === 'SuspenseComponent';
+
+  const shouldIncludeInTree = !shouldFilterFiber(nextFiber);
+  if (shouldIncludeInTree && didFiberRender(nextFiber)) {
+    onRender(nextFiber, 'update');
+  }
+
+  // Children removed in this commit are listed on the parent, in the order
+  // React deletes them.
+  if (nextFiber.deletions && nextFiber.flags & ChildDeletion) {
+    for (const deletedFiber of nextFiber.deletions) {
+      unmountFiberTreeRecursively(onRender, deletedFiber, reportedUnmounts);
+    }
+  }
+
+  // The behavior of timed-out Suspense trees is unique.
+  // Rather than unmount the timed out content (and possibly lose important state),
+  // React re-parents this content within a hidden Fragment while the fallback is showing.
+  // This behavior doesn't need to be observable in the DevTools though.
+  // It might even result in a bad user experience for e.g. node selection in the Elements panel.
+  // The easiest fix is to strip out the intermediate Fragment fibers,
+  // so the Elements panel and Profiler don't need to special case them.
+  // Suspense components only have a non-null memoizedState if they're timed-out.
+  const prevDidTimeout = isSuspense && prevFiber.memoizedState !== null;
+  const nextDidTimeOut = isSuspense && nextFiber.memoizedState !== null;
+
+  // Offscreen (Activity) and LegacyHidden only have a non-null memoizedState
+  // while hidden.
+  const nextTagName = getFiberTagName(nextFiber);
+  const isOffscreen =
+    nextTagName === 'OffscreenComponent' ||
+    nextTagName === 'LegacyHiddenComponent';
+  const prevIsHidden = isOffscreen && prevFiber.memoizedState !== null;
+  const nextIsHidden = isOffscreen && nextFiber.memoizedState !== null;
+
+  // The logic below is inspired by the code paths in updateSuspenseComponent()
+  // inside ReactFiberBeginWork in the React source code.
+  if (prevDidTimeout && nextDidTimeOut) {
+    // Fallback -> Fallback:
+    // 1. Reconcile fallback set.
+    const nextFallbackChildSet = nextFiber.child?.sibling ?? null;
+    // Note: We can't use nextFiber.child.sibling.alternate
+    // because the set is special and alternate may not exist.
+    const prevFallbackChildSet = prevFiber.child?.sibling ?? null;
+
+    if (nextFallbackChildSet !== null && prevFallbackChildSet !== null) {
+      updateFiberRecursively(
+        onRender,
+        nextFallbackChildSet,
+        prevFallbackChildSet,
+        nextFiber,
+        reportedUnmounts,
+      );
+    }
+  } else if (prevDidTimeout && !nextDidTimeOut) {
+    // Fallback -> Primary:
+    // 1. Unmount fallback set
+    // Note: don't emulate fallback unmount because React actually did it,
+    // it is reported through the deletions above.
+    // 2. Show primary set
+    // React kept its state while the fallback was showing.
+    showFiberChildrenRecursively(onRender, nextFiber);
+  } else if (!prevDidTimeout && nextDidTimeOut) {
+    // Primary -> Fallback:
+    // 1. Hide primary set
+    // This is not a real unmount, so it won't get reported by React.
+    // We need to manually walk the previous tree and record hides.
+    hideFiberChildrenRecursively(onRender, prevFiber);
+
+    // 2. Mount fallback set
+    const nextFallbackChildSet = nextFiber.child?.sibling ?? null;
+
+    if (nextFallbackChildSet !== null) {
+      mountFiberRecursively(onRender, nextFallbackChildSet, true);
+    }
+  } else if (isOffscreen && !prevIsHidden && nextIsHidden) {
+    // Visible -> Hidden: the subtree keeps its state, same as a timed out
+    // Suspense primary set.
+    hideFiberChildrenRecursively(onRender, prevFiber);
+  } else if (isOffscreen && prevIsHidden && !nextIsHidden) {
+    // Hidden -> Visible
+    showFiberChildrenRecursively(onRender, nextFiber);
+  } else if (nextFiber.child !== prevFiber.child) {
+    // Common case: Primary -> Primary.
+    // This is the same code path as for non-Suspense fibers.
+
+    // If the first child is different, we need to traverse them.
+    // Each next child will be either a new child (mount) or an alternate (update).
+    let nextChild = nextFiber.child;
+
+    while (nextChild) {
+      // We already know children will be referentially different because
+      // they are either new mounts or alternates of previous children.
+      // Schedule updates and mounts depending on whether alternates exist.
+      // Deletions were already reported above.
+      if (nextChild.alternate) {
+        const prevChild = nextChild.alternate;
+
+        updateFiberRecursively(
+          onRender,
+          nextChild,
+          prevChild,
+          shouldIncludeInTree ? nextFiber : parentFiber,
+          reportedUnmounts,
+        );
+      } else {
+        mountFiberRecursively(onRender, nextChild, false);
+      }
+
+      // Try the next child.
+      nextChild = nextChild.sibling;
+    }
+  }
+};
+
+export const unmountFiber = (onRender: RenderHandler, fiber: Fiber) => {
+  const isRoot = getFiberTagName(fiber) === 'HostRoot';
+
+  if (isRoot || !shouldFilterFiber(fiber)) {
+    onRender(fiber, 'unmount');
+  }
+};
+
+// Returns the first child that is visible when its parent is, skipping the
+// hidden primary set of a timed out Suspense and hidden Offscreen subtrees.
+const getVisibleChild = (fiber: Fiber): Fiber | null => {
+  const tagName = getFiberTagName(fiber);
+  if (tagName === 'SuspenseComponent' && fiber.memoizedState !== null) {
+    return fiber.child?.sibling?.child ?? null;
+  }
+  if (
+    (tagName === 'OffscreenComponent' || tagName === 'LegacyHiddenComponent') &&
+    fiber.memoizedState !== null
+  ) {
+    return null;
+  }
+  return fiber.child;
+};
+
+const hideFiberChildrenRecursively = (
   onRender: RenderHandler,
-  nextFiber: Fiber,
-  prevFiber: Fiber,
-  parentFiber: Fiber | null,
+  fiber: Fiber,
 ) => {
-  if (!fiberIdMap.has(nextFiber)) {
-    getFiberId(nextFiber);
+  let child = getVisibleChild(fiber);
+  while (child !== null) {
+    // Record hides children-first, like unmounts.
+    hideFiberChildrenRecursively(onRender, child);
+    if (!shouldFilterFiber(child)) {
+      onRender(child, 'hide');
+    }
+    child = child.sibling;
   }
-  if (!prevFiber) return;
-  if (!fiberIdMap.has(prevFiber)) {
-    getFiberId(prevFiber);
+};
+
+const showFiberChildrenRecursively = (
+  onRender: RenderHandler,
+  fiber: Fiber,
+) => {
+  let child = getVisibleChild(fiber);
+  while (child !== null) {
+    // Fibers we never saw were created while the subtree was hidden. Filtered
+    // wrappers like the Offscreen around Suspense children are never given an
+    // ID, so their children decide.
+    const isFiltered = shouldFilterFiber(child);
+    const isKnownFiber =
+      isFiltered ||
+      fiberIdMap.has(child) ||
+      (child.alternate !== null && fiberIdMap.has(child.alternate));
+    if (isKnownFiber) {
+      if (!isFiltered) {
+        onRender(child, 'show');
+        if (didFiberRender(child)) {
+          onRender(child, 'update');
+        }
+      }
+      showFiberChildrenRecursively(onRender, child);
+    } else {
+      mountFiberRecursively(onRender, child, false);
+    }
+    child = child.sibling;
+  }
+};
+
+export const unmountFiberChildrenRecursively = (
+  onRender: RenderHandler,
+  fiber: Fiber,
+) => {
+  // We might meet a nested Suspense on our way.
+  const isTimedOutSuspense =
+    getFiberTagName(fiber) === 'SuspenseComponent' &&
+    fiber.memoizedState !== null;
+  let child = fiber.child;
+
+  if (isTimedOutSuspense) {
+    // If it's showing fallback tree, let's traverse it instead.
+    const primaryChildFragment = fiber.child;
+    const fallbackChildFragment = primaryChildFragment?.sibling ?? null;
+
+    // Skip over to the real Fiber child.
+    child = fallbackChildFragment?.child ?? null;
   }
 
-  const isSuspense = nextFiber.tag === SuspenseComponentTag;
+  while (child !== null) {
+    // Record simulated unmounts children-first.
+    // We skip nodes without return because those are real unmounts.
+    if (child.return !== null) {
+      unmountFiber(onRender, child);
+      unmountFiberChildrenRecursively(onRender, child);
+    }
 
-  const shouldIncludeInTree = !shouldFilterFiber(nextFiber);
-  if (shouldIncludeInTree && didFiberRender(nextFiber)) {
-    onRender(nextFiber, 'update');
+    child = child.sibling;
   }
+};
 
-  // The behavior of timed-out Suspense trees is unique.
-  // Rather than unmount the timed out content (and possibly lose important state),
-  // React re-parents this content within a hidden Fragment while the fallback is showing.
-  // This behavior doesn't need to be observable in the DevTools though.
-  // It might even result in a bad user experience for e.g. node selection in the Elements panel.
-  // The easiest fix is to strip out the intermediate Fragment fibers,
-  // so the Elements panel and Profiler don't need to special case them.
-  // Suspense components only have a non-null memoizedState if they're timed-out.
-  const prevDidTimeout = isSuspense && prevFiber.memoizedState !== null;
-  const nextDidTimeOut = isSuspense && nextFiber.memoizedState !== null;
+// Reports real unmounts children-first. Unlike unmountFiberChildrenRecursively,
+// this also walks fibers that React already detached (return === null).
+// Fibers in `reportedUnmounts` (or whose alternate is) are skipped, so the
+// same fiber is never reported twice in a pass.
+const unmountFiberTreeRecursively = (
+  onRender: RenderHandler,
+  fiber: Fiber,
+  reportedUnmounts: WeakSet<Fiber>,
+) => {
+  if (
+    reportedUnmounts.has(fiber) ||
+    (fiber.alternate && reportedUnmounts.has(fiber.alternate))
+  ) {
+    return;
+  }
+  reportedUnmounts.add(fiber);
 
-  // The logic below is inspired by the code paths in updateSuspenseComponent()
-  // inside ReactFiberBeginWork in the React source code.
-  if (prevDidTimeout && nextDidTimeOut) {
-    // Fallback -> Fallback:
-    // 1. Reconcile fallback set.
-    const nextFallbackChildSet = nextFiber.child?.sibling ?? null;
-    // Note: We can't use nextFiber.child.sibling.alternate
-    // because the set is special and alternate may not exist.
-    const prevFallbackChildSet = prevFiber.child?.sibling ?? null;
+  // Hidden subtrees are walked too, they were only hidden, not unmounted.
+  let child = fiber.child;
+
+  while (child !== null) {
+    unmountFiberTreeRecursively(onRender, child, reportedUnmounts);
+    child = child.sibling;
+  }
+  unmountFiber(onRender, fiber);
+};
+
+const isRootFiberMounted = (fiber: Fiber | null) =>
+  fiber?.memoizedState != null &&
+  fiber.memoizedState.element != null &&
+  // A dehydrated root is not considered mounted
+  fiber.memoizedState.isDehydrated !== true;
+
+let commitId = 0;
+const rootInstanceMap = new WeakMap<
+  FiberRoot,
+  {
+    prevFiber: Fiber | null;
+    id: number;
+  }
+>();
+
+export interface TraverseRenderedFibersOptions {
+  /**
+   * Reports every fiber of the root as mounted, regardless of whether the
+   * root was traversed before or the fiber rendered in the last commit.
+   */
+  isSyntheticMount?: boolean;
+  /**
+   * Called once the root has been torn down, after every fiber of the
+   * previous tree has been reported as unmounted.
+   */
+  onRootUnmount?: (root: FiberRoot) => unknown;
+}
+
+/**
+ * Creates a fiber visitor function. Must pass a fiber root and a render handler.
+ * @example
+ * traverseRenderedFibers(root, (fiber, phase) => {
+ *   console.log(phase)
+ * })
+ */
+export const traverseRenderedFibers = (
+  root: FiberRoot,
+  onRender: RenderHandler,
+  options: TraverseRenderedFibersOptions = {},
+) => {
+  const fiber = 'current' in root ? root.current : root;
+
+  let rootInstance = rootInstanceMap.get(root);
+
+  if (!rootInstance) {
+    rootInstance = { prevFiber: null, id: commitId++ };
+    rootInstanceMap.set(root, rootInstance);
+  }
+
+  const { prevFiber } = rootInstance;
+  const reportedUnmounts = new WeakSet<Fiber>();
+
+  // React reports every unmounted fiber through onCommitFiberUnmount before
+  // the commit, parent-first. Anything that wasn't already reported through
+  // `deletions` (e.g. on React 17, which has no `deletions`) is reported
+  // here, in reverse so children come first.
+  const flushCommittedUnmounts = () => {
+    if (options.isSyntheticMount || !hasRDTHook()) return;
+    const unmounts = getCommittedUnmounts(root);
+    for (let i = unmounts.length - 1; i >= 0; i--) {
+      const unmountedFiber = unmounts[i];
+      if (
+        reportedUnmounts.has(unmountedFiber) ||
+        (unmountedFiber.alternate &&
+          reportedUnmounts.has(unmountedFiber.alternate))
+      ) {
+        continue;
+      }
+      reportedUnmounts.add(unmountedFiber);
+      unmountFiber(onRender, unmountedFiber);
+    }
+  };
+
+  const unmountRoot = (prevRootFiber: Fiber | null) => {
+    if (prevRootFiber) {
+      unmountFiberTreeRecursively(onRender, prevRootFiber, reportedUnmounts);
+    }
+    flushCommittedUnmounts();
+    rootInstanceMap.delete(root);
+    options.onRootUnmount?.(root);
+  };
+
+  // if fiberRoot don't have current instance, means it's been unmounted
+  if (!fiber) {
+    unmountRoot(prevFiber);
+    return;
+  }
+
+  const isMounted = isRootFiberMounted(fiber);
+
+  // The root state is shared between everyone traversing this root, so it
+  // may already have been cleaned up by an earlier traversal of this commit.
+  // The alternate is always the previously committed root fiber.
+  if (!isMounted && isRootFiberMounted(fiber.alternate)) {
+    unmountRoot(fiber.alternate);
+    return;
+  }
+
+  if (options.isSyntheticMount) {
+    mountFiberRecursively(onRender, fiber, true, true);
+  } else if (prevFiber !== null) {
+    const wasMounted = isRootFiberMounted(prevFiber);
+
+    if (!wasMounted && isMounted) {
+      mountFiberRecursively(onRender, fiber, false);
+    } else if (wasMounted && isMounted) {
+      updateFiberRecursively(
+        onRender,
+        fiber,
+        fiber.alternate,
+        null,
+        reportedUnmounts,
+      );
+    }
+  } else {
+    mountFiberRecursively(onRender, fiber, true);
+  }
+
+  flushCommittedUnmounts();
+  rootInstance.prevFiber = fiber;
+};
+
+const isFiberRoot = (root: unknown): root is FiberRoot =>
+  typeof root === 'object' &&
+  root != null &&
+  'current' in root &&
+  isValidFiber(root.current) &&
+  // resolving a fiber's tag table needs its root, HostRoot is 3 everywhere
+  root.current.tag === HostRootTag;
+
+/**
+ * Returns the {@link FiberRoot} that a {@link Fiber} belongs to.
+ */
+export const getFiberRootFromFiber = (fiber: Fiber): FiberRoot | null => {
+  let currentFiber = fiber;
+  while (currentFiber.return) {
+    currentFiber = currentFiber.return;
+  }
+  if (getFiberTagName(currentFiber) !== 'HostRoot') return null;
+  return isFiberRoot(currentFiber.stateNode) ? currentFiber.stateNode : null;
+};
+
+const isFiberKey = (key: string) =>
+  key.startsWith('__reactFiber$') || key.startsWith('__reactInternalInstance$');
+
+const getFiberRootFromHostNode = (node: object): FiberRoot | null => {
+  if ('_reactRootContainer' in node) {
+    // react 17 wraps the legacy root, react 18 stores it directly
+    const container = node._reactRootContainer as
+      | { _internalRoot?: unknown }
+      | null
+      | undefined;
+    const root = container?._internalRoot ?? container;
+    if (isFiberRoot(root)) return root;
+  }
+  let fiber: Fiber | null = null;
+  for (const key of Object.keys(node)) {
+    if (key.startsWith('__reactContainer$')) {
+      const hostRootFiber = node[key as keyof typeof node] as unknown;
+      if (isValidFiber(hostRootFiber)) {
+        const root = hostRootFiber.stateNode;
+        if (isFiberRoot(root)) return root;
+      }
+    }
+    if (isFiberKey(key)) {
+      const maybeFiber = node[key as keyof typeof node] as unknown;
+      if (isValidFiber(maybeFiber)) fiber = maybeFiber;
+    }
+  }
+  if (!fiber) return null;
+  // only the outermost host nodes of a root need to walk up the fiber tree
+  const parentNode = (node as { parentNode?: object | null }).parentNode;
+  if (parentNode && Object.keys(parentNode).some(isFiberKey)) return null;
+  return getFiberRootFromFiber(fiber);
+};
+
+const getRendererIDFromHostNode = (node: object): number => {
+  const renderers = getRDTHook().renderers;
+  if (renderers.size === 1) {
+    return renderers.keys().next().value ?? UNKNOWN_RENDERER_ID;
+  }
+  for (const [id, renderer] of renderers) {
+    try {
+      if (renderer.findFiberByHostInstance?.(node)) return id;
+    } catch {}
+  }
+  return UNKNOWN_RENDERER_ID;
+};
+
+/**
+ * Scans the DOM for React roots, including roots that mounted before bippy was loaded. Found roots are added to the registry read by `getFiberRoots`.
+ *
+ * @example
+ * const roots = discoverFiberRoots(document);
+ */
+export const discoverFiberRoots = (
+  container: ParentNode = document,
+): FiberRoot[] => {
+  const roots = new Set<FiberRoot>();
+  const nodes: Iterable<object> = [
+    container,
+    ...Array.from(container.querySelectorAll('*')),
+  ];
+  for (const node of nodes) {
+    try {
+      const root = getFiberRootFromHostNode(node);
+      if (!root || roots.has(root)) continue;
+      roots.add(root);
+      if (hasRDTHook()) {
+        registerFiberRoot(getRendererIDFromHostNode(node), root);
+      }
+    } catch {}
+  }
+  return Array.from(roots);
+};
+
+/**
+ * Replays existing roots as synthetic mounts through {@link traverseRenderedFibers}, so tools loaded after React can see fibers that already rendered. Later commits of the roots are reported as updates.
+ *
+ * @example
+ * replayFiberRoots((fiber, phase) => {
+ *   console.log(phase, fiber); // 'mount'
+ * });
+ */
+export const replayFiberRoots = (
+  onRender: RenderHandler,
+  roots: FiberRoot[] = discoverFiberRoots(),
+) => {
+  for (const root of roots) {
+    traverseRenderedFibers(root, onRender, { isSyntheticMount: true });
+  }
+  return roots;
+};
+
+/**
+ * - `resolved`: showing its primary children
+ * - `fallback`: timed out and showing its fallback
+ * - `pending`: server rendered, waiting for the server to stream the content
+ * - `dehydrated`: server rendered content that hasn't been hydrated yet
+ */
+export type SuspenseBoundaryState =
+  | 'pending'
+  | 'fallback'
+  | 'resolved'
+  | 'dehydrated';
+
+export interface SuspenseBoundary {
+  fiber: Fiber;
+  state: SuspenseBoundaryState;
+  /**
+   * The first fiber of the primary children. Kept (but hidden) while the fallback is showing.
+   */
+  primary: Fiber | null;
+  /**
+   * The first fiber of the fallback, only while it is showing.
+   */
+  fallback: Fiber | null;
+}
+
+export interface SuspenseBoundaryChange {
+  boundary: SuspenseBoundary;
+  /**
+   * `null` the first time the boundary is seen.
+   */
+  prevState: SuspenseBoundaryState | null;
+  /**
+   * How long the boundary showed its fallback, in milliseconds, once it
+   * stops showing it.
+   */
+  fallbackDuration: number | null;
+}
+
+// React 17+ reuses tag 18 for DehydratedFragment, which isn't a boundary
+const isSuspenseFiber = (fiber: Fiber) => {
+  const tagName = getFiberTagName(fiber);
+  return (
+    tagName === 'SuspenseComponent' || tagName === 'DehydratedSuspenseComponent'
+  );
+};
+
+const getSuspenseBoundaryState = (fiber: Fiber): SuspenseBoundaryState => {
+  if (getFiberTagName(fiber) === 'DehydratedSuspenseComponent') {
+    return 'dehydrated';
+  }
+  const suspenseState = fiber.memoizedState as unknown as {
+    dehydrated?: { data?: string } | null;
+  } | null;
+  if (!suspenseState) return 'resolved';
+  if (suspenseState.dehydrated) {
+    // react-dom marks server rendered boundaries with `<!--$?-->` (pending)
+    // and `<!--$!-->` (the server rendered the fallback)
+    const data = suspenseState.dehydrated.data;
+    if (data === '$?') return 'pending';
+    if (data === '$!') return 'fallback';
+    return 'dehydrated';
+  }
+  return 'fallback';
+};
+
+/**
+ * Returns the state and children of a Suspense boundary {@link Fiber}.
+ */
+export const getSuspenseBoundary = (fiber: Fiber): SuspenseBoundary | null => {
+  if (!isSuspenseFiber(fiber)) return null;
+  const state = getSuspenseBoundaryState(fiber);
+  // primary children are wrapped in an Offscreen fiber, the fallback in a
+  // Fragment next to it
+  const primaryWrapper = fiber.child;
+  const primary =
+    primaryWrapper && getFiberTagName(primaryWrapper) === 'OffscreenComponent'
+      ? primaryWrapper.child
+      : primaryWrapper;
+  const fallback =
+    state === 'fallback' ? (primaryWrapper?.sibling?.child ?? null) : null;
+  return { fiber, state, primary: primary ?? null, fallback };
+};
+
+/**
+ * Returns the nearest Suspense boundary above the {@link Fiber}, i.e. the boundary that shows a fallback when it suspends.
+ */
+export const getNearestSuspenseBoundary = (
+  fiber: Fiber,
+): SuspenseBoundary | null => {
+  const boundaryFiber = traverseFiber(fiber.return, isSuspenseFiber, true);
+  return boundaryFiber ? getSuspenseBoundary(boundaryFiber) : null;
+};
+
+/**
+ * Returns every Suspense boundary in the tree, in tree order.
+ *
+ * @example
+ * for (const { fiber, state } of getSuspenseBoundaries(root)) {
+ *   if (state === 'fallback') console.log(getDisplayName(fiber.return?.type));
+ * }
+ */
+export const getSuspenseBoundaries = (
+  root: Fiber | FiberRoot,
+): SuspenseBoundary[] => {
+  const boundaries: SuspenseBoundary[] = [];
+  for (const { fiber } of walkFiber('current' in root ? root.current : root)) {
+    const boundary = getSuspenseBoundary(fiber);
+    if (boundary) boundaries.push(boundary);
+  }
+  return boundaries;
+};
 
-    if (nextFallbackChildSet !== null && prevFallbackChildSet !== null) {
-      updateFiberRecursively(
-        onRender,
-        nextFallbackChildSet,
-        prevFallbackChildSet,
-        nextFiber,
-      );
-    }
-  } else if (prevDidTimeout && !nextDidTimeOut) {
-    // Fallback -> Primary:
-    // 1. Unmount fallback set
-    // Note: don't emulate fallback unmount because React actually did it.
-    // 2. Mount primary set
-    const nextPrimaryChildSet = nextFiber.child;
+interface SuspenseBoundaryRecord {
+  state: SuspenseBoundaryState | null;
+  fallbackStartTime: number | null;
+}
+
+const suspenseBoundaryRecords = new WeakMap<Fiber, SuspenseBoundaryRecord>();
 
-    if (nextPrimaryChildSet !== null) {
-      mountFiberRecursively(onRender, nextPrimaryChildSet, true);
+/**
+ * Reports Suspense boundaries that switched state since the last call. Call it on every commit; boundaries that are first seen in their primary state aren't reported.
+ *
+ * @example
+ * instrument({
+ *   onCommitFiberRoot(rendererID, root) {
+ *     trackSuspenseBoundaries(root, ({ boundary, fallbackDuration }) => {
+ *       if (fallbackDuration !== null) {
+ *         console.log('showed a fallback for', fallbackDuration, 'ms');
+ *       }
+ *     });
+ *   },
+ * });
+ */
+export const trackSuspenseBoundaries = (
+  root: Fiber | FiberRoot,
+  onChange: (change: SuspenseBoundaryChange) => unknown,
+) => {
+  const now = performance.now();
+  for (const boundary of getSuspenseBoundaries(root)) {
+    const { fiber, state } = boundary;
+    let record =
+      suspenseBoundaryRecords.get(fiber) ??
+      (fiber.alternate ? suspenseBoundaryRecords.get(fiber.alternate) : null);
+    if (!record) {
+      record = { state: null, fallbackStartTime: null };
     }
-  } else if (!prevDidTimeout && nextDidTimeOut) {
-    // Primary -> Fallback:
-    // 1. Hide primary set
-    // This is not a real unmount, so it won't get reported by React.
-    // We need to manually walk the previous tree and record unmounts.
-    unmountFiberChildrenRecursively(onRender, prevFiber);
+    suspenseBoundaryRecords.set(fiber, record);
+    if (fiber.alternate) suspenseBoundaryRecords.set(fiber.alternate, record);
 
-    // 2. Mount fallback set
-    const nextFallbackChildSet = nextFiber.child?.sibling ?? null;
+    const prevState = record.state;
+    if (prevState === state) continue;
+    record.state = state;
 
-    if (nextFallbackChildSet !== null) {
-      mountFiberRecursively(onRender, nextFallbackChildSet, true);
+    let fallbackDuration: number | null = null;
+    if (state === 'fallback') {
+      record.fallbackStartTime = now;
+    } else if (record.fallbackStartTime !== null) {
+      fallbackDuration = now - record.fallbackStartTime;
+      record.fallbackStartTime = null;
     }
-  } else if (nextFiber.child !== prevFiber.child) {
-    // Common case: Primary -> Primary.
-    // This is the same code path as for non-Suspense fibers.
 
-    // If the first child is different, we need to traverse them.
-    // Each next child will be either a new child (mount) or an alternate (update).
-    let nextChild = nextFiber.child;
+    if (prevState === null && state === 'resolved') continue;
+    onChange({ boundary, prevState, fallbackDuration });
+  }
+};
 
-    while (nextChild) {
-      // We already know children will be referentially different because
-      // they are either new mounts or alternates of previous children.
-      // Schedule updates and mounts depending on whether alternates exist.
-      // We don't track deletions here because they are reported separately.
-      if (nextChild.alternate) {
-        const prevChild = nextChild.alternate;
+/**
+ * Returns `true` if the {@link Fiber} is a class component that catches errors (`getDerivedStateFromError` or `componentDidCatch`).
+ */
+export const isErrorBoundary = (fiber: Fiber) => {
+  if (getFiberTagName(fiber) !== 'ClassComponent') return false;
+  const type = fiber.type as {
+    getDerivedStateFromError?: unknown;
+    prototype?: { componentDidCatch?: unknown };
+  } | null;
+  return (
+    typeof type?.getDerivedStateFromError === 'function' ||
+    typeof type?.prototype?.componentDidCatch === 'function'
+  );
+};
 
-        updateFiberRecursively(
-          onRender,
-          nextChild,
-          prevChild,
-          shouldIncludeInTree ? nextFiber : parentFiber,
-        );
-      } else {
-        mountFiberRecursively(onRender, nextChild, false);
+/**
+ * Returns the error boundaries above the {@link Fiber}, nearest first. The first one catches errors thrown by the fiber.
+ */
+export const getErrorBoundaries = (fiber: Fiber): Fiber[] => {
+  const boundaries: Fiber[] = [];
+  if (!fiber.return) return boundaries;
+  for (const { fiber: ancestor } of walkFiber(fiber.return, {
+    ascending: true,
+  })) {
+    if (isErrorBoundary(ancestor)) boundaries.push(ancestor);
+  }
+  return boundaries;
+};
+
+export interface CaughtError {
+  boundary: Fiber;
+  /**
+   * The fiber that threw. `null` if React didn't keep it around, e.g. when
+   * the error was thrown during the first render of the subtree.
+   */
+  failingFiber: Fiber | null;
+  /**
+   * From the failing fiber (or the boundary) up to the root, formatted like
+   * React's component stacks.
+   */
+  componentStack: string;
+}
+
+// boundaries whose DidCapture flag was already reported, since the flag
+// stays on fibers that bail out in later commits. React alternates between
+// two fibers per boundary, so a boundary is forgotten once it renders again.
+const reportedCaptures = new WeakSet<Fiber>();
+// the state a boundary had when it caught, while it still has it the
+// boundary is showing its error UI
+const capturedBoundaryStates = new WeakMap<Fiber, unknown>();
+
+const formatComponentStack = (fibers: Fiber[]) => {
+  let componentStack = '';
+  for (const fiber of fibers) {
+    const name =
+      typeof fiber.type === 'string' ? fiber.type : getDisplayName(fiber.type);
+    if (name) componentStack += `\n    in ${name}`;
+  }
+  return componentStack;
+};
+
+// The thrower and its ancestors are marked Incomplete in the render that
+// threw. React discards that render and deletes the previous children, so
+// look for a deleted fiber whose discarded alternate is the deepest
+// Incomplete one.
+const getFailingFiberPath = (
+  boundary: Fiber,
+  incomplete: number,
+): Fiber[] | null => {
+  for (const deletedFiber of boundary.deletions ?? []) {
+    for (const entry of walkFiber(deletedFiber, { order: 'post' })) {
+      if (entry.fiber.alternate && entry.fiber.alternate.flags & incomplete) {
+        return entry.path;
       }
+    }
+  }
+  return null;
+};
 
-      // Try the next child.
-      nextChild = nextChild.sibling;
+/**
+ * Reports error boundaries that caught an error in this commit. Call it on every commit.
+ *
+ * @example
+ * instrument({
+ *   onCommitFiberRoot(rendererID, root) {
+ *     trackErrorBoundaries(root, ({ boundary, componentStack }) => {
+ *       console.log(getDisplayName(boundary.type), 'caught', componentStack);
+ *     });
+ *   },
+ * });
+ */
+export const trackErrorBoundaries = (
+  root: Fiber | FiberRoot,
+  onBoundaryCaughtError: (caughtError: CaughtError) => unknown,
+) => {
+  const rootFiber = 'current' in root ? root.current : root;
+  const version = getRendererVersionFromFiber(rootFiber);
+  const didCapture = getFlagBit('DidCapture', version);
+  const incomplete = getFlagBit('Incomplete', version);
+  for (const entry of walkFiber(rootFiber)) {
+    const { fiber } = entry;
+    if (!(fiber.flags & didCapture)) {
+      reportedCaptures.delete(fiber);
+      if (fiber.alternate) reportedCaptures.delete(fiber.alternate);
+      continue;
     }
+    if (!isErrorBoundary(fiber) || reportedCaptures.has(fiber)) continue;
+    reportedCaptures.add(fiber);
+    if (fiber.alternate) reportedCaptures.delete(fiber.alternate);
+    capturedBoundaryStates.set(fiber, fiber.memoizedState);
+    if (fiber.alternate) {
+      capturedBoundaryStates.set(fiber.alternate, fiber.memoizedState);
+    }
+
+    const failingFiberPath = getFailingFiberPath(fiber, incomplete);
+    const boundaryPath = entry.path;
+    onBoundaryCaughtError({
+      boundary: fiber,
+      failingFiber: failingFiberPath
+        ? failingFiberPath[failingFiberPath.length - 1]
+        : null,
+      componentStack: formatComponentStack([
+        ...(failingFiberPath ?? []).reverse(),
+        ...boundaryPath.reverse(),
+      ]),
+    });
   }
 };
 
-export const unmountFiber = (onRender: RenderHandler, fiber: Fiber) => {
-  const isRoot = fiber.tag === HostRootTag;
+/**
+ * Returns `true` if the error boundary is showing its error UI, i.e. it caught an error (as reported by {@link trackErrorBoundaries}) and its state hasn't changed since.
+ */
+export const isErrorBoundaryShowingError = (fiber: Fiber) => {
+  const didCapture = getFlagBit(
+    'DidCapture',
+    getRendererVersionFromFiber(fiber),
+  );
+  if (fiber.flags & didCapture && isErrorBoundary(fiber)) return true;
+  return (
+    capturedBoundaryStates.has(fiber) &&
+    capturedBoundaryStates.get(fiber) === fiber.memoizedState
+  );
+};
 
-  if (isRoot || !shouldFilterFiber(fiber)) {
-    onRender(fiber, 'unmount');
+/**
+ * Returns the error boundaries in the tree that are showing their error UI.
+ */
+export const getActiveErrorBoundaries = (root: Fiber | FiberRoot): Fiber[] => {
+  const boundaries: Fiber[] = [];
+  for (const { fiber } of walkFiber('current' in root ? root.current : root)) {
+    if (isErrorBoundary(fiber) && isErrorBoundaryShowingError(fiber)) {
+      boundaries.push(fiber);
+    }
   }
+  return boundaries;
 };
 
-export const unmountFiberChildrenRecursively = (
-  onRender: RenderHandler,
-  fiber: Fiber,
-) => {
-  // We might meet a nested Suspense on our way.
-  const isTimedOutSuspense =
-    fiber.tag === SuspenseComponentTag && fiber.memoizedState !== null;
-  let child = fiber.child;
+export type UnstableKeyReason =
+  | 'missing-key'
+  | 'index-key'
+  | 'key-remount'
+  | 'type-remount';
 
-  if (isTimedOutSuspense) {
-    // If it's showing fallback tree, let's traverse it instead.
-    const primaryChildFragment = fiber.child;
-    const fallbackChildFragment = primaryChildFragment?.sibling ?? null;
+export interface UnstableKeyReport {
+  /**
+   * - `missing-key`: list children rendered without keys
+   * - `index-key`: list children keyed by index moved to another index
+   * - `key-remount`: a subtree remounted because its key changed
+   * - `type-remount`: a subtree remounted because its type changed to a different component with the same name, e.g. a component defined during render
+   */
+  reason: UnstableKeyReason;
+  /**
+   * The nearest composite fiber above the list or the remounted subtree.
+   */
+  parent: Fiber | null;
+  /**
+   * The list children, or the unmounted and the mounted fiber of a remount.
+   */
+  fibers: Fiber[];
+  /**
+   * Up to 5 keys of `fibers`.
+   */
+  keys: (string | null)[];
+}
 
-    // Skip over to the real Fiber child.
-    child = fallbackChildFragment?.child ?? null;
-  }
+const reportedKeylessLists = new WeakSet<Fiber>();
 
-  while (child !== null) {
-    // Record simulated unmounts children-first.
-    // We skip nodes without return because those are real unmounts.
-    if (child.return !== null) {
-      unmountFiber(onRender, child);
-      unmountFiberChildrenRecursively(onRender, child);
-    }
+const getParentComposite = (fiber: Fiber) => {
+  let parent = fiber.return;
+  while (parent && !isCompositeFiber(parent)) {
+    parent = parent.return;
+  }
+  return parent;
+};
 
+const getChildFibers = (fiber: Fiber | null) => {
+  const children: Fiber[] = [];
+  let child = fiber?.child ?? null;
+  while (child) {
+    children.push(child);
     child = child.sibling;
   }
+  return children;
 };
 
-let commitId = 0;
-const rootInstanceMap = new WeakMap<
-  FiberRoot,
-  {
-    prevFiber: Fiber | null;
-    id: number;
-  }
->();
+const getSampleKeys = (fibers: Fiber[]) =>
+  fibers.slice(0, 5).map((fiber) => fiber.key);
 
-/**
- * Creates a fiber visitor function. Must pass a fiber root and a render handler.
- * @example
- * traverseRenderedFibers(root, (fiber, phase) => {
- *   console.log(phase)
- * })
- */
-export const traverseRenderedFibers = (
-  root: FiberRoot,
-  onRender: RenderHandler,
-) => {
-  const fiber = 'current' in root ? root.current : root;
+// Only children that come from an array (e.g. `items.map()`) are a list.
+// Fragments hold their children as props. React freezes the children of
+// static JSX in development, so those are skipped. Index keys are explicit,
+// so those are still found in production.
+const isListParent = (fiber: Fiber) => {
+  const children =
+    getFiberTagName(fiber) === 'Fragment'
+      ? fiber.memoizedProps
+      : fiber.memoizedProps?.children;
+  return (
+    Array.isArray(children) && children.length > 1 && !Object.isFrozen(children)
+  );
+};
 
-  let rootInstance = rootInstanceMap.get(root);
+const arePropsShallowEqual = (a: Props | null, b: Props | null) => {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const keys = Object.keys(a);
+  if (keys.length !== Object.keys(b).length) return false;
+  return keys.every((key) => Object.is(a[key], b[key]));
+};
 
-  if (!rootInstance) {
-    rootInstance = { prevFiber: null, id: commitId++ };
-    rootInstanceMap.set(root, rootInstance);
+const checkListKeys = (
+  listParent: Fiber,
+  onUnstableKey: (report: UnstableKeyReport) => unknown,
+  isProductionBuild: boolean,
+) => {
+  if (!isListParent(listParent)) return;
+  const children = getChildFibers(listParent);
+
+  // production builds don't freeze static JSX children, so a static parent
+  // looks like a keyless list there
+  if (
+    !isProductionBuild &&
+    children.some((child) => child.key === null) &&
+    !reportedKeylessLists.has(listParent) &&
+    !(listParent.alternate && reportedKeylessLists.has(listParent.alternate))
+  ) {
+    reportedKeylessLists.add(listParent);
+    onUnstableKey({
+      reason: 'missing-key',
+      parent: getParentComposite(listParent),
+      fibers: children,
+      keys: getSampleKeys(children),
+    });
   }
 
-  const { prevFiber } = rootInstance;
-  // if fiberRoot don't have current instance, means it's been unmounted
-  if (!fiber) {
-    unmountFiber(onRender, fiber);
-  } else if (prevFiber !== null) {
-    const wasMounted =
-      prevFiber &&
-      prevFiber.memoizedState != null &&
-      prevFiber.memoizedState.element != null &&
-      // A dehydrated root is not considered mounted
-      prevFiber.memoizedState.isDehydrated !== true;
-    const isMounted =
-      fiber.memoizedState != null &&
-      fiber.memoizedState.element != null &&
-      // A dehydrated root is not considered mounted
-      fiber.memoizedState.isDehydrated !== true;
+  const isKeyedByIndex = children.every(
+    (child) => child.key !== null && child.key === String(child.index),
+  );
+  if (!isKeyedByIndex) return;
+  // With index keys, React keeps every child in place and changes its props,
+  // so a moved item shows up as props that belonged to another index.
+  const prevChildren = getChildFibers(listParent.alternate);
+  const movedChildren = children.filter(
+    (child) =>
+      child.alternate &&
+      !arePropsShallowEqual(
+        child.memoizedProps,
+        child.alternate.memoizedProps,
+      ) &&
+      prevChildren.some(
+        (prevChild) =>
+          prevChild.index !== child.index &&
+          arePropsShallowEqual(child.memoizedProps, prevChild.memoizedProps),
+      ),
+  );
+  if (!movedChildren.length) return;
+  onUnstableKey({
+    reason: 'index-key',
+    parent: getParentComposite(listParent),
+    fibers: movedChildren,
+    keys: getSampleKeys(movedChildren),
+  });
+};
 
-    if (!wasMounted && isMounted) {
-      mountFiberRecursively(onRender, fiber, false);
-    } else if (wasMounted && isMounted) {
-      updateFiberRecursively(onRender, fiber, fiber.alternate, null);
-    } else if (wasMounted && !isMounted) {
-      unmountFiber(onRender, fiber);
+const checkRemount = (
+  fiber: Fiber,
+  onUnstableKey: (report: UnstableKeyReport) => unknown,
+) => {
+  const parent = fiber.return;
+  // only the top of a mounted subtree, under a parent that was already mounted
+  if (
+    fiber.alternate ||
+    !parent?.alternate ||
+    !(parent.flags & ChildDeletion)
+  ) {
+    return;
+  }
+  for (const deletedFiber of parent.deletions ?? []) {
+    if (deletedFiber.index !== fiber.index) continue;
+    let reason: UnstableKeyReason | null = null;
+    if (deletedFiber.type === fiber.type && deletedFiber.key !== fiber.key) {
+      reason = 'key-remount';
+    } else if (
+      deletedFiber.key === fiber.key &&
+      deletedFiber.type !== fiber.type &&
+      isCompositeFiber(fiber) &&
+      getDisplayName(deletedFiber.type) === getDisplayName(fiber.type)
+    ) {
+      reason = 'type-remount';
     }
-  } else {
-    mountFiberRecursively(onRender, fiber, true);
+    if (!reason) continue;
+    const fibers = [deletedFiber, fiber];
+    onUnstableKey({
+      reason,
+      parent: getParentComposite(fiber),
+      fibers,
+      keys: getSampleKeys(fibers),
+    });
+    return;
   }
-
-  rootInstance.prevFiber = fiber;
 };
 
+/**
+ * Reports list children without keys, index keys on reordered lists and subtrees that remounted because their key or type changed. Call it on every commit.
+ *
+ * @example
+ * instrument({
+ *   onCommitFiberRoot(rendererID, root) {
+ *     trackUnstableKeys(root, ({ reason, parent, keys }) => {
+ *       console.warn(reason, 'in', getDisplayName(parent?.type), keys);
+ *     });
+ *   },
+ * });
+ */
+export const trackUnstableKeys = (
+  root: FiberRoot,
+  onUnstableKey: (report: UnstableKeyReport) => unknown,
+) => {
+  const renderer = getRendererFromFiber(root.current);
+  const isProductionBuild =
+    renderer !== undefined && detectReactBuildType(renderer) === 'production';
+  const listParents = new Set<Fiber>();
+  traverseRenderedFibers(root, (fiber, phase) => {
+    if (phase !== 'mount' && phase !== 'update') return;
+    if (phase === 'mount') checkRemount(fiber, onUnstableKey);
+    if (fiber.return) listParents.add(fiber.return);
+  });
+  for (const listParent of listParents) {
+    checkListKeys(listParent, onUnstableKey, isProductionBuild);
+  }
+};
 /**
  * @deprecated use `traverseRenderedFibers` instead
  */
@@ -859,13 +4335,42 @@ export interface InstrumentationOptions {
   onCommitFiberUnmount?: (rendererID: number, fiber: Fiber) => unknown;
   onPostCommitFiberRoot?: (rendererID: number, root: FiberRoot) => unknown;
   onActive?: () => unknown;
+  onError?: (error: unknown) => unknown;
   name?: string;
+  /**
+   * Instrumentations with a higher priority receive commits first. Defaults to `0`.
+   */
+  priority?: number;
+  isEnabled?: boolean;
+  /**
+   * Only receive events from matching renderers. Receives events from every renderer by default.
+   */
+  renderers?: RendererSelector;
+}
+
+/**
+ * Handle returned by {@link instrument}, call `dispose` to remove the handlers it added.
+ */
+export interface Instrumentation {
+  rdtHook: ReactDevToolsGlobalHook;
+  isDisposed: () => boolean;
+  dispose: () => void;
+  enable: () => void;
+  disable: () => void;
+  isEnabled: () => boolean;
+}
+
+interface InstrumentationSource {
+  name: string;
 }
 
+const instrumentationSources: InstrumentationSource[] = [];
+let baseInstrumentationSource: string | undefined;
+
 /**
- * Instruments the DevTools hook.
+ * Instruments the DevTools hook. Returns an {@link Instrumentation} handle that can be disposed.
  * @example
- * const hook = instrument({
+ * const instrumentation = instrument({
  *   onActive() {
  *     console.log('initialized');
  *   },
@@ -873,48 +4378,101 @@ export interface InstrumentationOptions {
  *     console.log('fiberRoot', root.current)
  *   },
  * });
+ *
+ * // later
+ * instrumentation.dispose();
  */
-export const instrument = (options: InstrumentationOptions) => {
-  return getRDTHook(() => {
+export const instrument = (
+  options: InstrumentationOptions,
+): Instrumentation => {
+  const source: InstrumentationSource = {
+    name: options.name ?? BIPPY_INSTRUMENTATION_STRING,
+  };
+  let subscription: CommitSubscription | null = null;
+  let isEnabled = options.isEnabled ?? true;
+  let isDisposed = false;
+
+  const rdtHook = getRDTHook(() => {
+    if (isDisposed || subscription) return;
     const rdtHook = getRDTHook();
 
     options.onActive?.();
+    const rendererSelector = options.renderers;
+    // the selector doesn't change, so each renderer is only matched once
+    // instead of on every commit
+    const rendererMatches = new Map<
+      number,
+      { renderer: ReactRenderer; isMatch: boolean }
+    >();
 
-    rdtHook._instrumentationSource =
-      options.name ?? BIPPY_INSTRUMENTATION_STRING;
-
-    const prevOnCommitFiberRoot = rdtHook.onCommitFiberRoot;
-    if (options.onCommitFiberRoot) {
-      rdtHook.onCommitFiberRoot = (
-        rendererID: number,
-        root: FiberRoot,
-        // biome-ignore lint/suspicious/noConfusingVoidType: may be undefined
-        priority: void | number,
-      ) => {
-        if (prevOnCommitFiberRoot)
-          prevOnCommitFiberRoot(rendererID, root, priority);
-        options.onCommitFiberRoot?.(rendererID, root, priority);
-      };
-    }
-
-    const prevOnCommitFiberUnmount = rdtHook.onCommitFiberUnmount;
-    if (options.onCommitFiberUnmount) {
-      rdtHook.onCommitFiberUnmount = (rendererID: number, root: FiberRoot) => {
-        if (prevOnCommitFiberUnmount)
-          prevOnCommitFiberUnmount(rendererID, root);
-        options.onCommitFiberUnmount?.(rendererID, root);
-      };
+    if (!instrumentationSources.length) {
+      baseInstrumentationSource = rdtHook._instrumentationSource;
     }
+    instrumentationSources.push(source);
+    rdtHook._instrumentationSource = source.name;
 
-    const prevOnPostCommitFiberRoot = rdtHook.onPostCommitFiberRoot;
-    if (options.onPostCommitFiberRoot) {
-      rdtHook.onPostCommitFiberRoot = (rendererID: number, root: FiberRoot) => {
-        if (prevOnPostCommitFiberRoot)
-          prevOnPostCommitFiberRoot(rendererID, root);
-        options.onPostCommitFiberRoot?.(rendererID, root);
-      };
-    }
+    subscription = subscribeToCommits(
+      {
+        name: source.name,
+        priority: options.priority,
+        isEnabled: isEnabled && (options.isEnabled ?? true),
+        onError: options.onError,
+        rendererFilter: rendererSelector
+          ? (rendererID) => {
+              const renderer = rdtHook.renderers.get(rendererID);
+              if (!renderer) return false;
+              let rendererMatch = rendererMatches.get(rendererID);
+              if (rendererMatch?.renderer !== renderer) {
+                const descriptor = getRendererDescriptor(rendererID);
+                rendererMatch = {
+                  renderer,
+                  isMatch: Boolean(
+                    descriptor && isRendererMatch(descriptor, rendererSelector),
+                  ),
+                };
+                rendererMatches.set(rendererID, rendererMatch);
+              }
+              return rendererMatch.isMatch;
+            }
+          : undefined,
+        onCommitFiberRoot: options.onCommitFiberRoot,
+        onCommitFiberUnmount: options.onCommitFiberUnmount,
+        onPostCommitFiberRoot: options.onPostCommitFiberRoot,
+      },
+      rdtHook,
+    );
   });
+
+  return {
+    rdtHook,
+    isDisposed: () => isDisposed,
+    dispose: () => {
+      if (isDisposed) return;
+      isDisposed = true;
+      subscription?.unsubscribe();
+      subscription = null;
+
+      const index = instrumentationSources.indexOf(source);
+      if (index === -1) return;
+      instrumentationSources.splice(index, 1);
+      // only restore the source if no other tool has claimed it since
+      if (rdtHook._instrumentationSource === source.name) {
+        const prevSource =
+          instrumentationSources[instrumentationSources.length - 1];
+        rdtHook._instrumentationSource =
+          prevSource?.name ?? baseInstrumentationSource;
+      }
+    },
+    enable: () => {
+      isEnabled = true;
+      subscription?.enable();
+    },
+    disable: () => {
+      isEnabled = false;
+      subscription?.disable();
+    },
+    isEnabled: () => subscription?.isEnabled() ?? isEnabled,
+  };
 };
 
 export const getFiberFromHostInstance = <T>(
@@ -947,6 +4505,72 @@ export const getFiberFromHostInstance = <T>(
   return null;
 };
 
+export interface CompositeFiberMatch {
+  /**
+   * The nearest composite fiber that passed the filter.
+   */
+  fiber: Fiber;
+  hostFiber: Fiber;
+  /**
+   * Composite fibers that passed the filter, from `fiber` up to the root.
+   */
+  ancestors: Fiber[];
+}
+
+/**
+ * Returns the nearest composite {@link Fiber} that renders the host instance, skipping fibers filtered by {@link shouldFilterFiber} or rejected by `filter`.
+ *
+ * @example
+ * // skip design-system primitives
+ * getCompositeFromHostInstance(element, (fiber) => !primitives.has(fiber.type));
+ */
+export const getCompositeFromHostInstance = (
+  hostInstance: unknown,
+  filter?: (fiber: Fiber) => boolean,
+): CompositeFiberMatch | null => {
+  const hostFiber = getFiberFromHostInstance(hostInstance);
+  if (!hostFiber) return null;
+  const ancestors: Fiber[] = [];
+  let fiber = hostFiber.return;
+  while (fiber) {
+    if (
+      isCompositeFiber(fiber) &&
+      !shouldFilterFiber(fiber) &&
+      (!filter || filter(fiber))
+    ) {
+      ancestors.push(fiber);
+    }
+    fiber = fiber.return;
+  }
+  if (!ancestors.length) return null;
+  return { fiber: ancestors[0], hostFiber, ancestors };
+};
+
+export interface FiberAtPointOptions {
+  filter?: (fiber: Fiber) => boolean;
+  /**
+   * Defaults to the global `document`, pass one to pick inside an iframe.
+   */
+  document?: Document;
+}
+
+/**
+ * Returns the nearest composite {@link Fiber} under a viewport point, like {@link getCompositeFromHostInstance} for the topmost element that React renders. Elements that React doesn't render (e.g. overlays) are skipped.
+ */
+export const getFiberAtPoint = (
+  x: number,
+  y: number,
+  options: FiberAtPointOptions = {},
+): (CompositeFiberMatch & { node: Element }) | null => {
+  const doc = options.document ?? globalThis.document;
+  if (typeof doc?.elementsFromPoint !== 'function') return null;
+  for (const node of doc.elementsFromPoint(x, y)) {
+    const match = getCompositeFromHostInstance(node, options.filter);
+    if (match) return { ...match, node };
+  }
+  return null;
+};
+
 export const secure = (
   options: InstrumentationOptions,
   secureOptions: {
@@ -957,12 +4581,29 @@ export const secure = (
   } = {},
 ): InstrumentationOptions => {
   const onActive = options.onActive;
+  const onError = options.onError;
   const isRDTHookInstalled = hasRDTHook();
   const isUsingRealReactDevtools = isRealReactDevtools();
   const isUsingReactRefresh = isReactRefresh();
   let timeout: number | undefined;
   let isProduction = false;
 
+  // dropping the handlers makes the rejection permanent, `enable()` can't
+  // bring them back
+  const reject = () => {
+    options.isEnabled = false;
+    options.onCommitFiberRoot = undefined;
+    options.onCommitFiberUnmount = undefined;
+    options.onPostCommitFiberRoot = undefined;
+  };
+
+  // handler errors are already isolated by the commit subscriber registry,
+  // they only need to be forwarded
+  options.onError = (error) => {
+    onError?.(error);
+    secureOptions.onError?.(error);
+  };
+
   options.onActive = () => {
     clearTimeout(timeout);
     let isSecure = true;
@@ -987,50 +4628,7 @@ export const secure = (
       secureOptions.onError?.(err);
     }
 
-    if (!isSecure) {
-      options.onCommitFiberRoot = undefined;
-      options.onCommitFiberUnmount = undefined;
-      options.onPostCommitFiberRoot = undefined;
-      options.onActive = undefined;
-      return;
-    }
-
-    try {
-      const onCommitFiberRoot = options.onCommitFiberRoot;
-      if (onCommitFiberRoot) {
-        options.onCommitFiberRoot = (rendererID, root, priority) => {
-          try {
-            onCommitFiberRoot(rendererID, root, priority);
-          } catch (err) {
-            secureOptions.onError?.(err);
-          }
-        };
-      }
-
-      const onCommitFiberUnmount = options.onCommitFiberUnmount;
-      if (onCommitFiberUnmount) {
-        options.onCommitFiberUnmount = (rendererID, root) => {
-          try {
-            onCommitFiberUnmount(rendererID, root);
-          } catch (err) {
-            secureOptions.onError?.(err);
-          }
-        };
-      }
-
-      const onPostCommitFiberRoot = options.onPostCommitFiberRoot;
-      if (onPostCommitFiberRoot) {
-        options.onPostCommitFiberRoot = (rendererID, root) => {
-          try {
-            onPostCommitFiberRoot(rendererID, root);
-          } catch (err) {
-            secureOptions.onError?.(err);
-          }
-        };
-      }
-    } catch (err) {
-      secureOptions.onError?.(err);
-    }
+    if (!isSecure) reject();
   };
 
   if (
@@ -1042,7 +4640,7 @@ export const secure = (
       if (!isProduction) {
         secureOptions.onError?.();
       }
-      stop();
+      reject();
     }, secureOptions.installCheckTimeout ?? 100) as unknown as number;
   }
 
@@ -1058,7 +4656,7 @@ export const secure = (
  * });
  */
 export const onCommitFiberRoot = (handler: (root: FiberRoot) => void) => {
-  instrument(
+  return instrument(
     secure({
       onCommitFiberRoot: (_, root) => {
         handler(root);
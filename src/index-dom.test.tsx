@@ -4,16 +4,24 @@ import {
 	type Effect,
 	type Fiber,
 	type FiberRoot,
+	type PortalMode,
 	createFiberVisitor,
 	didFiberCommit,
 	didFiberRender,
+	discoverFiberRoots,
 	getDisplayName,
 	getFiberFromHostInstance,
+	getFiberRootFromFiber,
+	getFiberRoots,
+	subscribeToFiberRoots,
+	getCommitSubscribers,
 	getFiberStack,
 	getMutatedHostFibers,
 	getNearestHostFiber,
 	getNearestHostFibers,
 	getRDTHook,
+	getRendererDescriptor,
+	getRendererDescriptors,
 	getTimings,
 	getType,
 	instrument,
@@ -21,17 +29,77 @@ import {
 	isHostFiber,
 	isInstrumentationActive,
 	isValidFiber,
+	satisfiesVersionRange,
 	secure,
+	subscribeToCommits,
 	traverseContexts,
 	traverseEffects,
 	traverseFiber,
+	walkFiber,
+	queryFiber,
+	queryAllFibers,
+	getOwner,
+	getOwnerStack,
+	traverseOwners,
+	getFibersRenderedBy,
+	isPortalFiber,
+	isFiberInPortal,
+	getPortalContainer,
+	getFiberContainer,
+	getSuspenseBoundaries,
+	getSuspenseBoundary,
+	mountFiberRecursively,
+	updateFiberRecursively,
+	type RenderHandler,
+	getNearestSuspenseBoundary,
+	trackSuspenseBoundaries,
+	type CaughtError,
+	isErrorBoundary,
+	getErrorBoundaries,
+	trackErrorBoundaries,
+	getActiveErrorBoundaries,
+	isErrorBoundaryShowingError,
+	registerFiberRoot,
+	unregisterFiberRoot,
+	UNKNOWN_RENDERER_ID,
+	getProviderContext,
+	getContextProvider,
+	getContextValue,
+	getFiberContexts,
+	getContextConsumers,
+	getHooks,
+	getEffects,
+	getFlagNames,
+	getLaneNames,
+	getModeNames,
+	getFiberBitNames,
+	getFiberTagName,
+	getFiberSource,
+	getComponentStack,
+	createSourceMapResolver,
+	getHostRects,
+	getFiberRect,
+	getFiberVisibility,
+	getFiberAtPoint,
+	getCompositeFromHostInstance,
+	trackUnstableKeys,
+	type UnstableKeyReport,
+	getRenderReason,
+	isDeepEqual,
+	createUnnecessaryRenderTracker,
+	HostComponentTag,
+	HostPortalTag,
 	traverseProps,
 	traverseState,
 	traverseRenderedFibers,
 	onCommitFiberRoot,
+	replayFiberRoots,
 } from "./index.js";
 import React, { isValidElement } from "react";
-import { render, screen } from "@testing-library/react";
+import { createPortal } from "react-dom";
+// @ts-expect-error: @types/react doesn't declare the compiler runtime
+import * as compilerRuntime from "react/compiler-runtime";
+import { act, render, screen } from "@testing-library/react";
 
 const BasicComponent = () => {
 	return <div>Hello</div>;
@@ -109,6 +177,24 @@ const ComplexComponent = ({
 	return <div>{countContextValue + countState + countProp}</div>;
 };
 
+// instruments commits and keeps the last committed root, so tests can query
+// the fibers they rendered
+const captureFiberRoot = (
+	onCommitFiberRoot?: (rendererID: number, fiberRoot: FiberRoot) => unknown,
+) => {
+	let currentFiberRoot: FiberRoot | null = null;
+	const instrumentation = instrument({
+		onCommitFiberRoot: (rendererID, fiberRoot) => {
+			currentFiberRoot = fiberRoot;
+			onCommitFiberRoot?.(rendererID, fiberRoot);
+		},
+	});
+	return {
+		instrumentation,
+		getRoot: () => currentFiberRoot as unknown as FiberRoot,
+	};
+};
+
 describe("instrument", () => {
 	it("should not fail if __REACT_DEVTOOLS_GLOBAL_HOOK__ exists already", () => {
 		render(<BasicComponent />);
@@ -172,6 +258,7 @@ describe("instrument", () => {
 	it("should safeguard if version <17 or in production", () => {
 		render(<BasicComponent />);
 		const rdtHook = getRDTHook();
+		const renderer = rdtHook.renderers.get(1);
 		rdtHook.renderers.set(1, {
 			version: "16.0.0",
 			bundleType: 0,
@@ -195,6 +282,230 @@ describe("instrument", () => {
 		instrument(secure({ onCommitFiberRoot: onCommitFiberRoot2 }));
 		render(<BasicComponent />);
 		expect(onCommitFiberRoot2).toHaveBeenCalled();
+		if (renderer) rdtHook.renderers.set(1, renderer);
+	});
+
+	it("should keep a secure rejection after enable", () => {
+		const onCommitFiberRoot = vi.fn();
+		const instrumentation = instrument(
+			secure({ onCommitFiberRoot }, { minReactMajorVersion: 99 }),
+		);
+		render(<BasicComponent />);
+		instrumentation.enable();
+		render(<BasicComponent />);
+		instrumentation.dispose();
+		expect(onCommitFiberRoot).not.toHaveBeenCalled();
+	});
+
+	it("should rethrow handler errors without onError asynchronously", () => {
+		vi.useFakeTimers();
+		const error = new Error("handler error");
+		const onCommitFiberRoot = vi.fn();
+		const throwingInstrumentation = instrument({
+			onCommitFiberRoot: () => {
+				throw error;
+			},
+		});
+		const instrumentation = instrument({ onCommitFiberRoot });
+		render(<BasicComponent />);
+		throwingInstrumentation.dispose();
+		instrumentation.dispose();
+		expect(onCommitFiberRoot).toHaveBeenCalled();
+		expect(() => vi.runAllTimers()).toThrow(error);
+		vi.useRealTimers();
+	});
+
+	it("dispose removes only its own handlers", () => {
+		const onCommitFiberRoot1 = vi.fn();
+		const onCommitFiberRoot2 = vi.fn();
+		const instrumentation1 = instrument({
+			onCommitFiberRoot: onCommitFiberRoot1,
+		});
+		const instrumentation2 = instrument({
+			onCommitFiberRoot: onCommitFiberRoot2,
+		});
+		instrumentation1.dispose();
+		expect(instrumentation1.isDisposed()).toBe(true);
+		render(<BasicComponent />);
+		expect(onCommitFiberRoot1).not.toHaveBeenCalled();
+		expect(onCommitFiberRoot2).toHaveBeenCalled();
+		instrumentation2.dispose();
+		onCommitFiberRoot2.mockClear();
+		render(<BasicComponent />);
+		expect(onCommitFiberRoot2).not.toHaveBeenCalled();
+	});
+
+	it("dispose restores the previous instrumentation source", () => {
+		const rdtHook = getRDTHook();
+		const prevSource = rdtHook._instrumentationSource;
+		const instrumentation1 = instrument({ name: "tool-1" });
+		const instrumentation2 = instrument({ name: "tool-2" });
+		expect(rdtHook._instrumentationSource).toBe("tool-2");
+		instrumentation2.dispose();
+		expect(rdtHook._instrumentationSource).toBe("tool-1");
+		instrumentation1.dispose();
+		expect(rdtHook._instrumentationSource).toBe(prevSource);
+	});
+});
+
+describe("subscribeToCommits", () => {
+	it("should call subscribers in priority order", () => {
+		const calls: string[] = [];
+		const low = subscribeToCommits({
+			onCommitFiberRoot: () => calls.push("low"),
+		});
+		const high = subscribeToCommits({
+			priority: 10,
+			onCommitFiberRoot: () => calls.push("high"),
+		});
+		render(<BasicComponent />);
+		expect(calls.slice(0, 2)).toEqual(["high", "low"]);
+		low.unsubscribe();
+		high.unsubscribe();
+	});
+
+	it("should isolate errors per subscriber", () => {
+		const onError = vi.fn();
+		const onCommitFiberRoot = vi.fn();
+		const failing = subscribeToCommits({
+			onCommitFiberRoot: () => {
+				throw new Error("failed");
+			},
+			onError,
+		});
+		const healthy = subscribeToCommits({ onCommitFiberRoot });
+		render(<BasicComponent />);
+		expect(onError).toHaveBeenCalledWith(new Error("failed"));
+		expect(onCommitFiberRoot).toHaveBeenCalled();
+		failing.unsubscribe();
+		healthy.unsubscribe();
+	});
+
+	it("should not call disabled subscribers", () => {
+		const onCommitFiberRoot = vi.fn();
+		const subscription = subscribeToCommits({ onCommitFiberRoot });
+		subscription.disable();
+		render(<BasicComponent />);
+		expect(onCommitFiberRoot).not.toHaveBeenCalled();
+		subscription.enable();
+		render(<BasicComponent />);
+		expect(onCommitFiberRoot).toHaveBeenCalled();
+		subscription.unsubscribe();
+		expect(getCommitSubscribers()).not.toContainEqual(
+			expect.objectContaining({ id: subscription.id }),
+		);
+	});
+});
+
+describe("renderer selection", () => {
+	it("should describe injected renderers", () => {
+		const rdtHook = getRDTHook();
+		rdtHook.renderers.set(99, {
+			version: "18.3.1",
+			bundleType: 1,
+			rendererPackageName: "react-three-fiber",
+			reconcilerVersion: "0.29.0",
+		});
+		expect(getRendererDescriptors()).toContainEqual(
+			expect.objectContaining({
+				id: 99,
+				packageName: "react-three-fiber",
+				version: "18.3.1",
+				reconcilerVersion: "0.29.0",
+				buildType: "development",
+			}),
+		);
+		rdtHook.renderers.delete(99);
+	});
+
+	it("should only call handlers for matching renderers", () => {
+		const rdtHook = getRDTHook();
+		let rendererID = -1;
+		const probe = instrument({
+			onCommitFiberRoot: (id) => {
+				rendererID = id;
+			},
+		});
+		render(<BasicComponent />);
+		probe.dispose();
+		const renderer = rdtHook.renderers.get(rendererID);
+		rdtHook.renderers.set(rendererID, {
+			version: "19.0.0",
+			bundleType: 1,
+			rendererPackageName: "react-dom",
+		});
+
+		const onReactDOMCommit = vi.fn();
+		const onOtherCommit = vi.fn();
+		const onVersionCommit = vi.fn();
+		const instrumentations = [
+			instrument({
+				renderers: "react-dom",
+				onCommitFiberRoot: onReactDOMCommit,
+			}),
+			instrument({
+				renderers: [rendererID + 1, "react-three-fiber"],
+				onCommitFiberRoot: onOtherCommit,
+			}),
+			instrument({
+				renderers: { version: ">=18 <20" },
+				onCommitFiberRoot: onVersionCommit,
+			}),
+		];
+		render(<BasicComponent />);
+		expect(onReactDOMCommit).toHaveBeenCalled();
+		expect(onOtherCommit).not.toHaveBeenCalled();
+		expect(onVersionCommit).toHaveBeenCalled();
+		for (const instrumentation of instrumentations) {
+			instrumentation.dispose();
+		}
+		if (renderer) rdtHook.renderers.set(rendererID, renderer);
+	});
+
+	it("should match each renderer once instead of on every commit", () => {
+		const rdtHook = getRDTHook();
+		let rendererID = -1;
+		const probe = instrument({
+			onCommitFiberRoot: (id) => {
+				rendererID = id;
+			},
+		});
+		render(<BasicComponent />);
+		probe.dispose();
+		const renderer = rdtHook.renderers.get(rendererID);
+
+		const selector = vi.fn(
+			(descriptor: { version: string }) => descriptor.version === "19.0.0",
+		);
+		const onCommitFiberRoot = vi.fn();
+		const instrumentation = instrument({
+			renderers: selector,
+			onCommitFiberRoot,
+		});
+		const { rerender } = render(<BasicComponent />);
+		rerender(<BasicComponent />);
+		expect(selector).toHaveBeenCalledTimes(1);
+		expect(getRendererDescriptor(rendererID)).toBe(
+			getRendererDescriptor(rendererID),
+		);
+
+		rdtHook.renderers.set(rendererID, { version: "18.3.1", bundleType: 1 });
+		onCommitFiberRoot.mockClear();
+		rerender(<BasicComponent />);
+		instrumentation.dispose();
+		if (renderer) rdtHook.renderers.set(rendererID, renderer);
+		expect(selector).toHaveBeenCalledTimes(2);
+		expect(onCommitFiberRoot).not.toHaveBeenCalled();
+	});
+});
+
+describe("satisfiesVersionRange", () => {
+	it("should match semver-like ranges", () => {
+		expect(satisfiesVersionRange("18.2.0", "^18.0.0")).toBe(true);
+		expect(satisfiesVersionRange("19.0.0-rc.1", "^18.0.0")).toBe(false);
+		expect(satisfiesVersionRange("17.0.2", "16.x || 17.x")).toBe(true);
+		expect(satisfiesVersionRange("18.3.1", ">=17 <18")).toBe(false);
+		expect(satisfiesVersionRange("18.3.1", "~18.3.0")).toBe(true);
 	});
 });
 
@@ -330,8 +641,8 @@ describe("createFiberVisitor", () => {
 	it("should handle random/complex case (deprecated)", async () => {
 		const expectedRendersMap = new Map<string, number>();
 		const visit = createFiberVisitor({
-			onRender: (fiber) => {
-				if (isCompositeFiber(fiber)) {
+			onRender: (fiber, phase) => {
+				if (phase !== "unmount" && isCompositeFiber(fiber)) {
 					const displayName = getDisplayName(fiber);
 					if (!displayName) {
 						return;
@@ -532,8 +843,8 @@ describe("traverseRenderedFibers", () => {
 		const expectedRendersMap = new Map<string, number>();
 		instrument({
 			onCommitFiberRoot: (_rendererID, fiberRoot) => {
-				traverseRenderedFibers(fiberRoot, (fiber) => {
-					if (isCompositeFiber(fiber)) {
+				traverseRenderedFibers(fiberRoot, (fiber, phase) => {
+					if (phase !== "unmount" && isCompositeFiber(fiber)) {
 						const displayName = getDisplayName(fiber);
 						if (!displayName) {
 							return;
@@ -634,6 +945,257 @@ describe("traverseRenderedFibers", () => {
 
 		expect(expectedRendersMap).toEqual(rendersMap);
 	});
+
+	it("should report deleted fibers once, children first", () => {
+		const unmountedFibers: Fiber[] = [];
+		const instrumentation = instrument({
+			onCommitFiberRoot: (_rendererID, fiberRoot) => {
+				traverseRenderedFibers(fiberRoot, (fiber, phase) => {
+					if (phase === "unmount") unmountedFibers.push(fiber);
+				});
+			},
+		});
+		const { rerender } = render(
+			<BasicComponentWithChildren>
+				<BasicComponentWithChildren>
+					<BasicComponent />
+				</BasicComponentWithChildren>
+			</BasicComponentWithChildren>,
+		);
+		rerender(<BasicComponentWithChildren>{null}</BasicComponentWithChildren>);
+		instrumentation.dispose();
+		expect(unmountedFibers.map((fiber) => fiber.type)).toEqual([
+			"div",
+			BasicComponent,
+			"div",
+			BasicComponentWithChildren,
+		]);
+	});
+
+	it("should report hide and show when a Suspense boundary times out", async () => {
+		let promise: Promise<void> | null = null;
+		let resolvePromise = () => {};
+		const Suspender = () => {
+			if (promise) throw promise;
+			return null;
+		};
+		const phases: string[] = [];
+		const instrumentation = instrument({
+			onCommitFiberRoot: (_rendererID, fiberRoot) => {
+				traverseRenderedFibers(fiberRoot, (fiber, phase) => {
+					if (fiber.type === BasicComponent) phases.push(phase);
+				});
+			},
+		});
+		const renderTree = () => (
+			<React.Suspense fallback={<div>Loading</div>}>
+				<BasicComponent />
+				<Suspender />
+			</React.Suspense>
+		);
+		const { rerender } = render(renderTree());
+		promise = new Promise<void>((resolve) => {
+			resolvePromise = resolve;
+		});
+		rerender(renderTree());
+		await act(async () => {
+			const pendingPromise = promise;
+			promise = null;
+			resolvePromise();
+			await pendingPromise;
+		});
+		instrumentation.dispose();
+		expect(phases).toEqual(["mount", "hide", "show", "update"]);
+	});
+
+	it("should show an already mounted subtree when a Suspense boundary resolves", async () => {
+		let promise: Promise<void> | null = null;
+		let resolvePromise = () => {};
+		const Suspender = () => {
+			if (promise) throw promise;
+			return null;
+		};
+		const phases: string[] = [];
+		const instrumentation = instrument({
+			onCommitFiberRoot: (_rendererID, fiberRoot) => {
+				traverseRenderedFibers(fiberRoot, (fiber, phase) => {
+					if (typeof fiber.type === "function") {
+						phases.push(`${getDisplayName(fiber.type)}:${phase}`);
+					}
+				});
+			},
+		});
+		const renderTree = () => (
+			<React.Suspense fallback={<div>Loading</div>}>
+				<BasicComponentWithChildren>
+					<BasicComponent />
+				</BasicComponentWithChildren>
+				<Suspender />
+			</React.Suspense>
+		);
+		const { rerender } = render(renderTree());
+		promise = new Promise<void>((resolve) => {
+			resolvePromise = resolve;
+		});
+		rerender(renderTree());
+		await act(async () => {
+			const pendingPromise = promise;
+			promise = null;
+			resolvePromise();
+			await pendingPromise;
+		});
+		instrumentation.dispose();
+		expect(phases).toEqual([
+			"BasicComponentWithChildren:mount",
+			"BasicComponent:mount",
+			"Suspender:mount",
+			"BasicComponent:hide",
+			"BasicComponentWithChildren:hide",
+			"Suspender:hide",
+			"BasicComponentWithChildren:show",
+			"BasicComponentWithChildren:update",
+			"BasicComponent:show",
+			"BasicComponent:update",
+			"Suspender:show",
+			"Suspender:update",
+		]);
+	});
+
+	it("should report every fiber when a root unmounts", () => {
+		const unmountedFibers: Fiber[] = [];
+		const unmountedRoots: FiberRoot[] = [];
+		const { instrumentation, getRoot } = captureFiberRoot(
+			(_rendererID, fiberRoot) => {
+				traverseRenderedFibers(
+					fiberRoot,
+					(fiber, phase) => {
+						if (phase === "unmount") unmountedFibers.push(fiber);
+					},
+					{
+						onRootUnmount: (root) => {
+							unmountedRoots.push(root);
+						},
+					},
+				);
+			},
+		);
+		const { unmount } = render(
+			<BasicComponentWithChildren>
+				<BasicComponent />
+			</BasicComponentWithChildren>,
+		);
+		expect(unmountedFibers).toHaveLength(0);
+		unmount();
+		instrumentation.dispose();
+		expect(unmountedFibers.map((fiber) => fiber.type)).toEqual([
+			"div",
+			BasicComponent,
+			"div",
+			BasicComponentWithChildren,
+			null,
+		]);
+		expect(unmountedRoots).toEqual([getRoot()]);
+	});
+});
+
+describe("discoverFiberRoots", () => {
+	it("should find roots that are already mounted", () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		const { container } = render(<BasicComponent />);
+		instrumentation.dispose();
+		expect(discoverFiberRoots(container)).toEqual([getRoot()]);
+		expect(discoverFiberRoots()).toContain(getRoot());
+	});
+
+	it("should find the root from a host node", () => {
+		const { container } = render(<BasicComponent />);
+		const [root] = discoverFiberRoots(container);
+		expect(discoverFiberRoots(container.firstChild as Element)).toEqual([
+			root,
+		]);
+		expect(
+			getFiberRootFromFiber(
+				getFiberFromHostInstance(container.firstChild) as Fiber,
+			),
+		).toBe(root);
+	});
+
+	it("should move unattributed roots to their renderer once they commit", () => {
+		const rdtHook = getRDTHook();
+		let rendererID = 0;
+		const { instrumentation, getRoot } = captureFiberRoot((id) => {
+			rendererID = id;
+		});
+		const { container, rerender, unmount } = render(<BasicComponent />);
+		const root = getRoot();
+		// as if the root mounted before bippy, next to another renderer
+		unregisterFiberRoot(rendererID, root);
+		rdtHook.renderers.set(99, { version: "19.0.0", bundleType: 1 });
+		discoverFiberRoots(container);
+		expect(rdtHook._fiberRoots?.get(UNKNOWN_RENDERER_ID)?.has(root)).toBe(
+			true,
+		);
+		rerender(<BasicComponent />);
+		expect(rdtHook._fiberRoots?.get(UNKNOWN_RENDERER_ID)?.has(root)).toBe(
+			false,
+		);
+		discoverFiberRoots(container);
+		expect(rdtHook._fiberRoots?.get(UNKNOWN_RENDERER_ID)?.has(root)).toBe(
+			false,
+		);
+		unmount();
+		instrumentation.dispose();
+		rdtHook.renderers.delete(99);
+		expect(getFiberRoots()).not.toContain(root);
+	});
+});
+
+describe("replayFiberRoots", () => {
+	it("should replay existing fibers as mounts", () => {
+		const { container } = render(
+			<BasicComponentWithChildren>
+				<BasicComponent />
+			</BasicComponentWithChildren>,
+		);
+		const mountedFibers: Fiber[] = [];
+		const phases = new Set<string>();
+		replayFiberRoots((fiber, phase) => {
+			mountedFibers.push(fiber);
+			phases.add(phase);
+		}, discoverFiberRoots(container));
+		expect(Array.from(phases)).toEqual(["mount"]);
+		expect(mountedFibers.map((fiber) => fiber.type)).toEqual([
+			null,
+			BasicComponentWithChildren,
+			"div",
+			BasicComponent,
+			"div",
+		]);
+	});
+});
+
+describe("getFiberRoots", () => {
+	it("should track roots as they mount and unmount", () => {
+		const events: string[] = [];
+		let currentFiberRoot: FiberRoot | null = null;
+		const unsubscribe = subscribeToFiberRoots({
+			onRootAdded: (_rendererID, root) => {
+				currentFiberRoot = root;
+				events.push("added");
+			},
+			onRootRemoved: (_rendererID, root) => {
+				expect(root).toBe(currentFiberRoot);
+				events.push("removed");
+			},
+		});
+		const { rerender, unmount } = render(<BasicComponent />);
+		rerender(<BasicComponent />);
+		expect(getFiberRoots()).toContain(currentFiberRoot);
+		unmount();
+		unsubscribe();
+		expect(events).toEqual(["added", "removed"]);
+		expect(getFiberRoots()).not.toContain(currentFiberRoot);
+	});
 });
 
 describe("isValidElement", () => {
@@ -906,6 +1468,1266 @@ describe("traverseFiber", () => {
 	});
 });
 
+describe("walkFiber", () => {
+	const renderTree = () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(
+			<BasicComponentWithChildren>
+				<BasicComponent />
+			</BasicComponentWithChildren>,
+		);
+		instrumentation.dispose();
+		return getRoot().current.child;
+	};
+
+	it("should visit fibers in pre-order and post-order", () => {
+		const rootFiber = renderTree();
+		const preOrder = Array.from(walkFiber(rootFiber), ({ fiber, depth }) => [
+			fiber.type,
+			depth,
+		]);
+		expect(preOrder).toEqual([
+			[BasicComponentWithChildren, 0],
+			["div", 1],
+			[BasicComponent, 2],
+			["div", 3],
+		]);
+		const postOrder = Array.from(
+			walkFiber(rootFiber, { order: "post" }),
+			({ fiber }) => fiber.type,
+		);
+		expect(postOrder).toEqual([
+			"div",
+			BasicComponent,
+			"div",
+			BasicComponentWithChildren,
+		]);
+	});
+
+	it("should skip subtrees and respect maxDepth", () => {
+		const rootFiber = renderTree();
+		const skipped: unknown[] = [];
+		for (const entry of walkFiber(rootFiber)) {
+			skipped.push(entry.fiber.type);
+			if (entry.fiber.type === BasicComponent) entry.skip();
+		}
+		expect(skipped).toEqual([BasicComponentWithChildren, "div", BasicComponent]);
+		const shallow = Array.from(
+			walkFiber(rootFiber, { maxDepth: 1 }),
+			({ fiber }) => fiber.type,
+		);
+		expect(shallow).toEqual([BasicComponentWithChildren, "div"]);
+	});
+
+	it("should walk up with paths", () => {
+		const rootFiber = renderTree();
+		const leaf = traverseFiber(rootFiber, (fiber) => fiber.type === BasicComponent);
+		const entries = Array.from(walkFiber(leaf as Fiber, { ascending: true }));
+		expect(entries[1].fiber.type).toBe("div");
+		expect(entries[1].parent).toBe(leaf);
+		expect(entries[2].path.map((fiber) => fiber.type)).toEqual([
+			BasicComponent,
+			"div",
+			BasicComponentWithChildren,
+		]);
+	});
+
+	it("should not overflow the stack on deep trees", () => {
+		const rootFiber = { child: null, sibling: null } as unknown as Fiber;
+		let currentFiber = rootFiber;
+		for (let i = 0; i < 100_000; i++) {
+			const child = { child: null, sibling: null } as unknown as Fiber;
+			currentFiber.child = child;
+			currentFiber = child;
+		}
+		let count = 0;
+		for (const _entry of walkFiber(rootFiber)) count++;
+		expect(count).toBe(100_001);
+	});
+});
+
+describe("queryFiber", () => {
+	const Item = ({ id }: { id: number }) => <li>{id}</li>;
+	const List = () => (
+		<ul>
+			{[1, 2, 3].map((id) => (
+				<Item key={`item-${id}`} id={id} />
+			))}
+		</ul>
+	);
+
+	const renderList = () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(<List />);
+		instrumentation.dispose();
+		return getRoot();
+	};
+
+	it("should match names, combinators and lists", () => {
+		const root = renderList();
+		expect(queryAllFibers(root, "List > ul > Item")).toHaveLength(3);
+		expect(queryAllFibers(root, "List li:host")).toHaveLength(3);
+		expect(queryAllFibers(root, "List > li")).toHaveLength(0);
+		expect(queryAllFibers(root, ":composite")).toHaveLength(4);
+		expect(
+			queryAllFibers(root, "ul, li").map((fiber) => fiber.type),
+		).toEqual(["ul", "li", "li", "li"]);
+	});
+
+	it("should match keys, props and nth-child", () => {
+		const root = renderList();
+		expect(queryFiber(root, 'Item[key="item-2"]')?.memoizedProps.id).toBe(2);
+		expect(queryFiber(root, "Item[prop.id=3]")?.key).toBe("item-3");
+		expect(queryFiber(root, "Item[prop.id=4]")).toBeNull();
+		expect(
+			queryAllFibers(root, "ul > :nth-child(odd)").map((fiber) => fiber.key),
+		).toEqual(["item-1", "item-3"]);
+		expect(queryAllFibers(root, "Item:nth-child(2)")).toHaveLength(1);
+	});
+
+	it("should throw on invalid selectors", () => {
+		const root = renderList();
+		expect(() => queryFiber(root, "Item[")).toThrow(SyntaxError);
+		expect(() => queryFiber(root, "List >")).toThrow(SyntaxError);
+		expect(() => queryFiber(root, ":unknown")).toThrow(SyntaxError);
+	});
+});
+
+describe("owners", () => {
+	const OwnedChild = () => <span>child</span>;
+	const Owner = ({ children }: { children: React.ReactNode }) => (
+		<div>
+			<OwnedChild />
+			{children}
+		</div>
+	);
+	const OwnerApp = () => (
+		<Owner>
+			<p>passed</p>
+		</Owner>
+	);
+
+	const renderOwners = () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(<OwnerApp />);
+		instrumentation.dispose();
+		return getRoot();
+	};
+
+	it("should return the owner stack", () => {
+		const root = renderOwners();
+		const span = queryFiber(root, "span") as Fiber;
+		const paragraph = queryFiber(root, "p") as Fiber;
+		expect(getOwner(paragraph)?.type).toBe(OwnerApp);
+		expect(getOwnerStack(span).map((owner) => owner.type)).toEqual([
+			OwnerApp,
+			Owner,
+			OwnedChild,
+		]);
+		expect(traverseOwners(span, (owner) => owner.type === Owner)).toBe(
+			queryFiber(root, "Owner"),
+		);
+	});
+
+	it("should list the fibers a composite rendered", () => {
+		const root = renderOwners();
+		const owner = queryFiber(root, "Owner") as Fiber;
+		expect(getFibersRenderedBy(owner).map((fiber) => fiber.type)).toEqual([
+			"div",
+			OwnedChild,
+		]);
+	});
+});
+
+describe("portals", () => {
+	const renderPortal = () => {
+		const portalContainer = document.createElement("div");
+		document.body.appendChild(portalContainer);
+		const { instrumentation, getRoot } = captureFiberRoot();
+		const { container } = render(
+			<section>
+				{createPortal(<aside>modal</aside>, portalContainer)}
+			</section>,
+		);
+		instrumentation.dispose();
+		return {
+			container,
+			portalContainer,
+			root: getRoot(),
+		};
+	};
+
+	it("should return the portal container of a fiber", () => {
+		const { container, portalContainer, root } = renderPortal();
+		const section = queryFiber(root, "section") as Fiber;
+		const aside = queryFiber(root, "aside") as Fiber;
+		expect(isPortalFiber(aside.return as Fiber)).toBe(true);
+		expect(isFiberInPortal(aside)).toBe(true);
+		expect(isFiberInPortal(section)).toBe(false);
+		expect(getPortalContainer(aside)).toBe(portalContainer);
+		expect(getFiberContainer(aside)).toBe(portalContainer);
+		expect(getFiberContainer(section)).toBe(container);
+	});
+
+	it("should include, exclude or stop at portals", () => {
+		const { root } = renderPortal();
+		const section = queryFiber(root, "section") as Fiber;
+		const walkTags = (portals: PortalMode) =>
+			Array.from(walkFiber(section, { portals }), ({ fiber }) => fiber.tag);
+		expect(walkTags("include")).toEqual([
+			HostComponentTag,
+			HostPortalTag,
+			HostComponentTag,
+		]);
+		expect(walkTags("stop")).toEqual([HostComponentTag, HostPortalTag]);
+		expect(walkTags("exclude")).toEqual([HostComponentTag]);
+		expect(
+			getNearestHostFiber(queryFiber(root, "aside") as Fiber, true, "stop"),
+		).toBe(queryFiber(root, "aside"));
+		expect(
+			traverseFiber(section, (fiber) => fiber.type === "aside", false, "exclude"),
+		).toBeNull();
+	});
+});
+
+describe("suspense boundaries", () => {
+	it("should report boundary states and fallback durations", async () => {
+		let promise: Promise<void> | null = null;
+		let resolvePromise = () => {};
+		const Suspender = () => {
+			if (promise) throw promise;
+			return <span>content</span>;
+		};
+		const changes: Array<[string | null, string, number | null]> = [];
+		const { instrumentation, getRoot } = captureFiberRoot(
+			(_rendererID, fiberRoot) => {
+				trackSuspenseBoundaries(
+					fiberRoot,
+					({ boundary, prevState, fallbackDuration }) => {
+						changes.push([prevState, boundary.state, fallbackDuration]);
+					},
+				);
+			},
+		);
+		const renderTree = () => (
+			<React.Suspense fallback={<div>Loading</div>}>
+				<Suspender />
+			</React.Suspense>
+		);
+		const { rerender } = render(renderTree());
+		const root = getRoot();
+		expect(getSuspenseBoundaries(root).map(({ state }) => state)).toEqual([
+			"resolved",
+		]);
+
+		promise = new Promise<void>((resolve) => {
+			resolvePromise = resolve;
+		});
+		rerender(renderTree());
+		const [boundary] = getSuspenseBoundaries(root);
+		expect(boundary.state).toBe("fallback");
+		expect(boundary.fallback?.type).toBe("div");
+		expect(boundary.primary?.type).toBe(Suspender);
+		expect([boundary.fiber, boundary.fiber.alternate]).toContain(
+			getNearestSuspenseBoundary(boundary.fallback as Fiber)?.fiber,
+		);
+
+		await act(async () => {
+			const pendingPromise = promise;
+			promise = null;
+			resolvePromise();
+			await pendingPromise;
+		});
+		instrumentation.dispose();
+		expect(getSuspenseBoundaries(root)[0].state).toBe("resolved");
+		expect(changes.map(([prevState, state]) => [prevState, state])).toEqual([
+			["resolved", "fallback"],
+			["fallback", "resolved"],
+		]);
+		expect(changes[0][2]).toBeNull();
+		expect(changes[1][2]).toBeGreaterThanOrEqual(0);
+	});
+});
+
+describe("error boundaries", () => {
+	class ErrorBoundary extends React.Component<
+		{ children: React.ReactNode },
+		{ hasError: boolean }
+	> {
+		state = { hasError: false };
+		static getDerivedStateFromError() {
+			return { hasError: true };
+		}
+		render() {
+			return this.state.hasError ? <p>error</p> : this.props.children;
+		}
+	}
+	const Thrower = ({ shouldThrow }: { shouldThrow: boolean }) => {
+		if (shouldThrow) throw new Error("test error");
+		return <span>ok</span>;
+	};
+
+	it("should report caught errors and active boundaries", () => {
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		const caughtErrors: CaughtError[] = [];
+		const { instrumentation, getRoot } = captureFiberRoot(
+			(_rendererID, fiberRoot) => {
+				trackErrorBoundaries(fiberRoot, (caughtError) => {
+					caughtErrors.push(caughtError);
+				});
+			},
+		);
+		const renderTree = (shouldThrow: boolean) => (
+			<ErrorBoundary>
+				<Thrower shouldThrow={shouldThrow} />
+			</ErrorBoundary>
+		);
+		const { rerender } = render(renderTree(false));
+		const root = getRoot();
+		const boundary = queryFiber(root, "ErrorBoundary") as Fiber;
+		expect(isErrorBoundary(boundary)).toBe(true);
+		expect(getErrorBoundaries(queryFiber(root, "span") as Fiber)).toEqual([
+			boundary,
+		]);
+		expect(getActiveErrorBoundaries(root)).toHaveLength(0);
+
+		rerender(renderTree(true));
+		rerender(renderTree(true));
+		instrumentation.dispose();
+		consoleError.mockRestore();
+		expect(caughtErrors).toHaveLength(1);
+		expect(caughtErrors[0].boundary.type).toBe(ErrorBoundary);
+		expect(caughtErrors[0].failingFiber?.type).toBe(Thrower);
+		expect(caughtErrors[0].componentStack).toBe(
+			"\n    in Thrower\n    in ErrorBoundary",
+		);
+		expect(getActiveErrorBoundaries(root).map((fiber) => fiber.type)).toEqual(
+			[ErrorBoundary],
+		);
+	});
+
+	it("should report every catch of a boundary that recovers", () => {
+		class ResettingBoundary extends React.Component<
+			{ children: React.ReactNode; resetKey: number },
+			{ hasError: boolean; resetKey: number }
+		> {
+			state = { hasError: false, resetKey: this.props.resetKey };
+			static getDerivedStateFromError() {
+				return { hasError: true };
+			}
+			static getDerivedStateFromProps(
+				props: { resetKey: number },
+				state: { resetKey: number },
+			) {
+				return props.resetKey === state.resetKey
+					? null
+					: { hasError: false, resetKey: props.resetKey };
+			}
+			render() {
+				return this.state.hasError ? <p>error</p> : this.props.children;
+			}
+		}
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		let caughtErrors = 0;
+		const instrumentation = instrument({
+			onCommitFiberRoot: (_rendererID, fiberRoot) => {
+				trackErrorBoundaries(fiberRoot, () => {
+					caughtErrors++;
+				});
+			},
+		});
+		const renderTree = (resetKey: number, shouldThrow: boolean) => (
+			<ResettingBoundary resetKey={resetKey}>
+				<Thrower shouldThrow={shouldThrow} />
+			</ResettingBoundary>
+		);
+		const { rerender } = render(renderTree(0, true));
+		for (let resetKey = 1; resetKey <= 2; resetKey++) {
+			rerender(renderTree(resetKey, false));
+			rerender(renderTree(resetKey, true));
+			rerender(renderTree(resetKey, true));
+		}
+		instrumentation.dispose();
+		consoleError.mockRestore();
+		expect(caughtErrors).toBe(3);
+	});
+
+	it("should read DidCapture with the bits of the fiber's renderer", () => {
+		const rdtHook = getRDTHook();
+		const rendererID = 99;
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(
+			<ErrorBoundary>
+				<Thrower shouldThrow={false} />
+			</ErrorBoundary>,
+		);
+		instrumentation.dispose();
+		const root = getRoot();
+		const boundary = queryFiber(root, "ErrorBoundary") as Fiber;
+		const flags = boundary.flags;
+		rdtHook.renderers.set(rendererID, { version: "17.0.2", bundleType: 1 });
+		for (const [id, roots] of rdtHook._fiberRoots ?? []) {
+			if (roots.has(root)) unregisterFiberRoot(id, root);
+		}
+		registerFiberRoot(rendererID, root);
+		// react 17 uses 1 << 7 for Ref
+		boundary.flags = 1 << 7;
+		expect(isErrorBoundaryShowingError(boundary)).toBe(false);
+		boundary.flags = 1 << 6;
+		expect(isErrorBoundaryShowingError(boundary)).toBe(true);
+		boundary.flags = flags;
+		unregisterFiberRoot(rendererID, root);
+		rdtHook.renderers.delete(rendererID);
+	});
+});
+
+describe("context graph", () => {
+	const ThemeContext = React.createContext("light");
+	const ThemedLabel = () => {
+		const theme = React.useContext(ThemeContext);
+		return <span>{theme}</span>;
+	};
+	const Unthemed = () => <p>plain</p>;
+
+	it("should resolve providers, consumers and values", () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(
+			<div>
+				<ThemedLabel />
+				<ThemeContext.Provider value="dark">
+					<ThemedLabel />
+					<Unthemed />
+				</ThemeContext.Provider>
+			</div>,
+		);
+		instrumentation.dispose();
+		const root = getRoot();
+		const [outerLabel, innerLabel] = getContextConsumers(root, ThemeContext);
+		const provider = queryFiber(root, "div > *:nth-child(2)") as Fiber;
+		expect(getProviderContext(provider)).toBe(ThemeContext);
+		expect(getContextProvider(outerLabel, ThemeContext)).toBeNull();
+		expect(getContextProvider(innerLabel, ThemeContext)).toBe(provider);
+		expect(getContextValue(outerLabel, ThemeContext)).toBe("light");
+		expect(
+			getContextValue(queryFiber(root, "Unthemed") as Fiber, ThemeContext),
+		).toBe("dark");
+		expect(getFiberContexts(innerLabel)).toEqual([
+			{ context: ThemeContext, value: "dark", provider },
+		]);
+	});
+});
+
+describe("getHooks", () => {
+	let setCount: (count: number) => void = () => {};
+	// not in the react 18 types the tests are type-checked against
+	const { useActionState, useOptimistic } = React as unknown as {
+		useActionState: <S>(action: (state: S) => S, initialState: S) => [S];
+		useOptimistic: <S>(passthrough: S) => [S];
+	};
+	const subscribe = () => () => {};
+	const getSnapshot = () => "snapshot";
+	const HookedComponent = () => {
+		const [count, setCountState] = React.useState(0);
+		setCount = setCountState;
+		const ref = React.useRef("ref");
+		const doubled = React.useMemo(() => count * 2, [count]);
+		const callback = React.useCallback(() => count, [count]);
+		React.useEffect(() => {}, []);
+		React.useLayoutEffect(() => {});
+		React.useContext(CountContext);
+		const id = React.useId();
+		const [isPending] = React.useTransition();
+		const snapshot = React.useSyncExternalStore(subscribe, getSnapshot);
+		const [actionState] = useActionState((state: number) => state, 1);
+		const [optimistic] = useOptimistic("optimistic");
+		const deferred = React.useDeferredValue("deferred");
+		return (
+			<div
+				data-values={[
+					ref.current,
+					doubled,
+					callback,
+					id,
+					isPending,
+					snapshot,
+					actionState,
+					optimistic,
+					deferred,
+				].join()}
+			/>
+		);
+	};
+
+	const renderHooked = () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(<HookedComponent />);
+		return {
+			instrumentation,
+			getFiber: () => queryFiber(getRoot(), "HookedComponent") as Fiber,
+		};
+	};
+
+	it("should decode hooks with _debugHookTypes", async () => {
+		const { instrumentation, getFiber } = renderHooked();
+		const hooks = getHooks(getFiber());
+		expect(hooks.map((hook) => hook.kind)).toEqual([
+			"state",
+			"ref",
+			"memo",
+			"callback",
+			"effect",
+			"layout-effect",
+			"id",
+			"transition",
+			"sync-external-store",
+			"action-state",
+			"optimistic",
+			"deferred-value",
+		]);
+		expect(hooks[1].value).toBe("ref");
+		expect(hooks[8].value).toBe("snapshot");
+		expect(hooks[9].value).toBe(1);
+
+		await act(async () => {
+			setCount(2);
+		});
+		instrumentation.dispose();
+		const [stateHook, , memoHook, , effectHook, layoutEffectHook] = getHooks(
+			getFiber(),
+		);
+		expect(stateHook).toMatchObject({
+			value: 2,
+			prevValue: 0,
+			hasChanged: true,
+		});
+		expect(memoHook).toMatchObject({ value: 4, deps: [2], prevDeps: [0] });
+		// effects are recreated every render, so only their deps count
+		expect(effectHook.hasChanged).toBe(false);
+		expect(layoutEffectHook.hasChanged).toBe(true);
+	});
+
+	it("should guess hooks without _debugHookTypes", () => {
+		const { instrumentation, getFiber } = renderHooked();
+		instrumentation.dispose();
+		const fiber = { ...getFiber(), _debugHookTypes: null } as Fiber;
+		expect(getHooks(fiber).map((hook) => hook.kind)).toEqual([
+			"state",
+			"ref",
+			"memo",
+			"callback",
+			"effect",
+			"layout-effect",
+			"id",
+			"transition",
+			"sync-external-store",
+			"action-state",
+			"state",
+			"unknown",
+		]);
+	});
+
+	it("should guess effect hooks with the tables of the given React version", () => {
+		const createEffectNode = (tag: number) => ({
+			memoizedState: { tag, create: () => {}, deps: [] },
+			next: null as unknown,
+		});
+		// react 17 tags: Layout 0b10, Passive 0b100
+		const passiveNode = createEffectNode(0b101);
+		const layoutNode = createEffectNode(0b011);
+		passiveNode.next = layoutNode;
+		const fiber = {
+			tag: 0,
+			alternate: null,
+			memoizedState: passiveNode,
+		} as unknown as Fiber;
+		expect(getHooks(fiber, "17.0.2").map((hook) => hook.kind)).toEqual([
+			"effect",
+			"layout-effect",
+		]);
+		expect(getHooks(fiber, "19.0.0").map((hook) => hook.kind)).toEqual([
+			"layout-effect",
+			"insertion-effect",
+		]);
+	});
+});
+
+describe("getEffects", () => {
+	it("should decode effect kinds and dependency changes", () => {
+		const EffectComponent = ({ a, b }: { a: number; b: number }) => {
+			React.useEffect(() => {}, [a, b]);
+			React.useLayoutEffect(() => {});
+			React.useInsertionEffect(() => {}, []);
+			return null;
+		};
+		const { instrumentation, getRoot } = captureFiberRoot();
+		const { rerender } = render(<EffectComponent a={1} b={1} />);
+		rerender(<EffectComponent a={2} b={1} />);
+		instrumentation.dispose();
+		const fiber = queryFiber(getRoot(), "EffectComponent") as Fiber;
+		const effects = getEffects(fiber);
+		expect(
+			effects.map(({ kind, willFire, changedDeps, isMissingDeps }) => ({
+				kind,
+				willFire,
+				changedDeps,
+				isMissingDeps,
+			})),
+		).toEqual([
+			{ kind: "passive", willFire: true, changedDeps: [0], isMissingDeps: false },
+			{ kind: "layout", willFire: true, changedDeps: [], isMissingDeps: true },
+			{
+				kind: "insertion",
+				willFire: false,
+				changedDeps: [],
+				isMissingDeps: false,
+			},
+		]);
+		expect(effects[0].prevDeps).toEqual([1, 1]);
+	});
+
+	it("should decode effect tags with the tables of the given React version", () => {
+		// react 17 tags: HasEffect 0b1, Layout 0b10, Passive 0b100
+		const layoutEffect = { tag: 0b011, deps: null } as unknown as Effect;
+		const passiveEffect = { tag: 0b100, deps: [] } as unknown as Effect;
+		layoutEffect.next = passiveEffect;
+		passiveEffect.next = layoutEffect;
+		const fiber = {
+			alternate: null,
+			updateQueue: { lastEffect: passiveEffect },
+		} as unknown as Fiber;
+		expect(
+			getEffects(fiber, "17.0.2").map(({ kind, willFire }) => ({
+				kind,
+				willFire,
+			})),
+		).toEqual([
+			{ kind: "layout", willFire: true },
+			{ kind: "passive", willFire: false },
+		]);
+		expect(getEffects(fiber, "19.0.0").map(({ kind }) => kind)).toEqual([
+			"insertion",
+			"layout",
+		]);
+	});
+});
+
+
+describe("getFiberRect", () => {
+	const renderAndQuery = (element: React.ReactElement, selector: string) => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(element);
+		instrumentation.dispose();
+		return queryFiber(getRoot(), selector) as Fiber;
+	};
+
+	it("should union the rects of the host nodes", () => {
+		const RectComponent = () => (
+			<>
+				<div />
+				<div />
+			</>
+		);
+		const fiber = renderAndQuery(<RectComponent />, "RectComponent");
+		const [first, second] = getNearestHostFibers(fiber).map(
+			(hostFiber) => hostFiber.stateNode as HTMLElement,
+		);
+		first.getBoundingClientRect = () =>
+			({ top: 10, left: 10, right: 30, bottom: 20, width: 20, height: 10 }) as DOMRect;
+		second.getBoundingClientRect = () =>
+			({ top: 15, left: 5, right: 25, bottom: 40, width: 20, height: 25 }) as DOMRect;
+		expect(getHostRects(fiber).map(({ node }) => node)).toEqual([
+			first,
+			second,
+		]);
+		expect(getFiberRect(fiber)).toEqual({
+			top: 10,
+			left: 5,
+			right: 30,
+			bottom: 40,
+			width: 25,
+			height: 30,
+		});
+		expect(getFiberVisibility(fiber)).toEqual({
+			isInViewport: true,
+			isZeroSize: false,
+			isDisplayNone: false,
+			isVisible: true,
+		});
+	});
+
+	it("should measure text nodes and detect display: none", () => {
+		const HiddenComponent = () => (
+			<div style={{ display: "none" }}>
+				<TextComponent />
+			</div>
+		);
+		const TextComponent = () => "hidden";
+		const fiber = renderAndQuery(<HiddenComponent />, "TextComponent");
+		const [hostRect] = getHostRects(fiber);
+		expect(hostRect.node.nodeType).toBe(Node.TEXT_NODE);
+		expect(getFiberRect(fiber)).toBe(null);
+		expect(getFiberVisibility(fiber)).toEqual({
+			isInViewport: false,
+			isZeroSize: true,
+			isDisplayNone: true,
+			isVisible: false,
+		});
+	});
+});
+
+describe("getFiberAtPoint", () => {
+	it("should return the nearest composite that passes the filter", () => {
+		const Primitive = ({ children }: { children: React.ReactNode }) => (
+			<span>{children}</span>
+		);
+		const Card = () => <Primitive>card</Primitive>;
+		const { container } = render(
+			<div>
+				<Card />
+			</div>,
+		);
+		const span = container.querySelector("span") as HTMLSpanElement;
+		const overlay = document.createElement("div");
+		const fakeDocument = {
+			elementsFromPoint: () => [overlay, span],
+		} as unknown as Document;
+
+		const match = getFiberAtPoint(0, 0, { document: fakeDocument });
+		expect(match?.node).toBe(span);
+		expect(match?.fiber.type).toBe(Primitive);
+		expect(match?.ancestors.map((fiber) => fiber.type)).toEqual([
+			Primitive,
+			Card,
+		]);
+
+		const filtered = getCompositeFromHostInstance(
+			span,
+			(fiber) => fiber.type !== Primitive,
+		);
+		expect(filtered?.fiber.type).toBe(Card);
+		expect(filtered?.hostFiber.stateNode).toBe(span);
+		expect(getCompositeFromHostInstance(overlay)).toBe(null);
+	});
+});
+
+describe("trackUnstableKeys", () => {
+	const Item = ({ item }: { item: { id: number } }) => <li>{item.id}</li>;
+	const trackReports = () => {
+		const reports: UnstableKeyReport[] = [];
+		const instrumentation = instrument({
+			onCommitFiberRoot: (_rendererID, fiberRoot) => {
+				trackUnstableKeys(fiberRoot, (report) => {
+					reports.push(report);
+				});
+			},
+		});
+		return { reports, instrumentation };
+	};
+
+	it("should report missing keys once and index keys on reorder", () => {
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		const items = [{ id: 1 }, { id: 2 }, { id: 3 }];
+		const KeylessList = ({ items }: { items: { id: number }[] }) => (
+			<ul>
+				{items.map((item) => (
+					// biome-ignore lint/correctness/useJsxKeyInIterable: testing
+					<Item item={item} />
+				))}
+			</ul>
+		);
+		const IndexList = ({ items }: { items: { id: number }[] }) => (
+			<ul>
+				{items.map((item, index) => (
+					// biome-ignore lint/suspicious/noArrayIndexKey: testing
+					<Item key={index} item={item} />
+				))}
+			</ul>
+		);
+		const { reports, instrumentation } = trackReports();
+		const { rerender } = render(<KeylessList items={items} />);
+		rerender(<KeylessList items={[...items]} />);
+		expect(reports).toHaveLength(1);
+		expect(reports[0]).toMatchObject({
+			reason: "missing-key",
+			keys: [null, null, null],
+		});
+		expect(reports[0].parent?.type).toBe(KeylessList);
+
+		reports.length = 0;
+		const { rerender: rerenderIndexList } = render(<IndexList items={items} />);
+		expect(reports).toHaveLength(0);
+		rerenderIndexList(<IndexList items={[...items].reverse()} />);
+		instrumentation.dispose();
+		consoleError.mockRestore();
+		expect(reports).toHaveLength(1);
+		expect(reports[0]).toMatchObject({
+			reason: "index-key",
+			keys: ["0", "2"],
+		});
+		expect(reports[0].parent?.type).toBe(IndexList);
+	});
+
+	it("should not report static children as keyless lists in production", () => {
+		const consoleError = vi
+			.spyOn(console, "error")
+			.mockImplementation(() => {});
+		const items = [{ id: 1 }, { id: 2 }];
+		// production builds don't freeze the children of static JSX
+		const StaticList = () =>
+			React.createElement("ul", {
+				children: items.map((item) => (
+					// biome-ignore lint/correctness/useJsxKeyInIterable: testing
+					<Item item={item} />
+				)),
+			});
+		const IndexList = ({ items }: { items: { id: number }[] }) => (
+			<ul>
+				{items.map((item, index) => (
+					// biome-ignore lint/suspicious/noArrayIndexKey: testing
+					<Item key={index} item={item} />
+				))}
+			</ul>
+		);
+		const rdtHook = getRDTHook();
+		const renderer = rdtHook.renderers.get(1);
+		if (renderer) rdtHook.renderers.set(1, { ...renderer, bundleType: 0 });
+		const { reports, instrumentation } = trackReports();
+		const { rerender } = render(<StaticList />);
+		rerender(<StaticList />);
+		expect(reports).toHaveLength(0);
+
+		const { rerender: rerenderIndexList } = render(<IndexList items={items} />);
+		rerenderIndexList(<IndexList items={[...items].reverse()} />);
+		instrumentation.dispose();
+		consoleError.mockRestore();
+		if (renderer) rdtHook.renderers.set(1, renderer);
+		expect(reports.map(({ reason }) => reason)).toEqual(["index-key"]);
+	});
+
+	it("should report subtrees that remount because of their key or type", () => {
+		const Child = () => <div />;
+		const KeyedParent = ({ version }: { version: number }) => (
+			<Child key={version} />
+		);
+		const InlineParent = () => {
+			const Inline = () => <div />;
+			return <Inline />;
+		};
+		const { reports, instrumentation } = trackReports();
+		const { rerender } = render(<KeyedParent version={1} />);
+		rerender(<KeyedParent version={2} />);
+		expect(reports).toHaveLength(1);
+		expect(reports[0]).toMatchObject({ reason: "key-remount", keys: ["1", "2"] });
+		expect(reports[0].parent?.type).toBe(KeyedParent);
+
+		reports.length = 0;
+		const { rerender: rerenderInline } = render(<InlineParent />);
+		rerenderInline(<InlineParent />);
+		instrumentation.dispose();
+		expect(reports.map(({ reason }) => reason)).toEqual(["type-remount"]);
+	});
+});
+
+describe("getRenderReason", () => {
+	const renderWithRoot = () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		const getFiber = (selector: string) =>
+			queryFiber(getRoot(), selector) as Fiber;
+		return { getFiber, instrumentation };
+	};
+
+	it("should attribute renders to mounts, props and the parent", () => {
+		const Child = (_props: { config: { a: number }; count: number }) => null;
+		const Parent = ({ count }: { count: number }) => (
+			<Child config={{ a: 1 }} count={count} />
+		);
+		const { getFiber, instrumentation } = renderWithRoot();
+		const { rerender } = render(<Parent count={1} />);
+		expect(getRenderReason(getFiber("Child"))?.reason).toBe("mount");
+		rerender(<Parent count={2} />);
+		instrumentation.dispose();
+		const renderReason = getRenderReason(getFiber("Child"));
+		expect(renderReason?.reasons).toEqual(["props", "parent"]);
+		expect(
+			renderReason?.props.map(({ name, isDeepEqual }) => ({ name, isDeepEqual })),
+		).toEqual([
+			{ name: "config", isDeepEqual: true },
+			{ name: "count", isDeepEqual: false },
+		]);
+	});
+
+	it("should attribute renders to state, context and forceUpdate", async () => {
+		const ThemeContext = React.createContext("light");
+		let setCount: (count: number) => void = () => {};
+		const CounterView = () => {
+			const [count, setCountState] = React.useState(0);
+			const theme = React.useContext(ThemeContext);
+			setCount = setCountState;
+			return (
+				<div>
+					{theme}
+					{count}
+				</div>
+			);
+		};
+		const ThemedCounter = React.memo(CounterView);
+		class Forced extends React.Component {
+			render() {
+				return null;
+			}
+		}
+		const forcedRef = React.createRef<Forced>();
+		const App = ({ theme }: { theme: string }) => (
+			<ThemeContext.Provider value={theme}>
+				<ThemedCounter />
+				<Forced ref={forcedRef} />
+			</ThemeContext.Provider>
+		);
+		const { getFiber, instrumentation } = renderWithRoot();
+		const { rerender } = render(<App theme="light" />);
+		await act(async () => {
+			setCount(1);
+		});
+		const stateReason = getRenderReason(getFiber("CounterView"));
+		expect(stateReason?.reason).toBe("state");
+		expect(stateReason?.state[0].hook?.kind).toBe("state");
+		expect(stateReason?.state[0].nextValue).toBe(1);
+
+		rerender(<App theme="dark" />);
+		const contextReason = getRenderReason(getFiber("CounterView"));
+		expect(contextReason?.reason).toBe("context");
+		expect(contextReason?.contexts[0]).toMatchObject({
+			context: ThemeContext,
+			prevValue: "light",
+			nextValue: "dark",
+		});
+
+		await act(async () => {
+			forcedRef.current?.forceUpdate();
+		});
+		instrumentation.dispose();
+		expect(getRenderReason(getFiber("Forced"))?.reason).toBe("force-update");
+	});
+
+	it("should report compiler cache misses", () => {
+		const Compiled = ({ value }: { value: number }) => {
+			const $ = compilerRuntime.c(2);
+			let element: React.ReactNode;
+			if ($[0] !== value) {
+				element = <div>{value}</div>;
+				$[0] = value;
+				$[1] = element;
+			} else {
+				element = $[1] as React.ReactNode;
+			}
+			return element;
+		};
+		const { getFiber, instrumentation } = renderWithRoot();
+		const { rerender } = render(<Compiled value={1} />);
+		rerender(<Compiled value={2} />);
+		instrumentation.dispose();
+		const renderReason = getRenderReason(getFiber("Compiled"));
+		expect(renderReason?.reasons).toEqual([
+			"props",
+			"compiler-cache-miss",
+			"parent",
+		]);
+		expect(renderReason?.memoCacheMisses).toEqual([0, 1]);
+	});
+});
+
+describe("isDeepEqual", () => {
+	it("should handle cycles, depth limits, ignore paths and function source", () => {
+		const createValue = (): Record<string, unknown> => ({
+			items: [1, { id: 2 }],
+			map: new Map([["k", 1]]),
+		});
+		const a = createValue();
+		const b = createValue();
+		a.self = a;
+		b.self = b;
+		expect(isDeepEqual(a, b)).toBe(true);
+		expect(isDeepEqual(a, b, { maxDepth: 1 })).toBe(false);
+		expect(
+			isDeepEqual(
+				{ style: { transform: "x" } },
+				{ style: { transform: "y" } },
+				{ ignorePaths: ["style.transform"] },
+			),
+		).toBe(true);
+		expect(
+			isDeepEqual([{ id: 1 }], [{ id: 2 }], { ignorePaths: ["*.id"] }),
+		).toBe(true);
+		const createHandler = () => () => {};
+		expect(isDeepEqual(createHandler(), createHandler())).toBe(false);
+		expect(
+			isDeepEqual(createHandler(), createHandler(), {
+				compareFunctionSource: true,
+			}),
+		).toBe(true);
+		expect(isDeepEqual(<div className="a" />, <div className="a" />)).toBe(true);
+	});
+});
+
+describe("createUnnecessaryRenderTracker", () => {
+	it("should aggregate renders where every changed prop is deep-equal", () => {
+		const Child = (_props: {
+			style: { color: string };
+			onClick: () => void;
+			config: { onSelect: () => void };
+			count: number;
+		}) => null;
+		const Parent = ({ count }: { count: number }) => (
+			<Child
+				style={{ color: "red" }}
+				onClick={() => {}}
+				config={{ onSelect: () => {} }}
+				count={count}
+			/>
+		);
+		const tracker = createUnnecessaryRenderTracker();
+		const instrumentation = instrument({
+			onCommitFiberRoot: (_rendererID, fiberRoot) => {
+				tracker.track(fiberRoot);
+			},
+		});
+		const { rerender } = render(<Parent count={1} />);
+		rerender(<Parent count={1} />);
+		rerender(<Parent count={1} />);
+		rerender(<Parent count={2} />);
+		instrumentation.dispose();
+		const unnecessaryRenders = tracker.getUnnecessaryRenders();
+		expect(unnecessaryRenders).toHaveLength(1);
+		expect(unnecessaryRenders[0]).toMatchObject({
+			type: Child,
+			displayName: "Child",
+			count: 2,
+			propPaths: ["style", "onClick", "config", "config.onSelect"],
+		});
+		expect(unnecessaryRenders[0]).not.toHaveProperty("fiber");
+		tracker.reset();
+		expect(tracker.getUnnecessaryRenders()).toEqual([]);
+	});
+});
+
+describe("getFiberSource", () => {
+	it("should read _debugSource or parse _debugStack", () => {
+		expect(
+			getFiberSource({
+				_debugSource: { fileName: "App.tsx", lineNumber: 4 },
+			} as unknown as Fiber),
+		).toEqual({ fileName: "App.tsx", lineNumber: 4, columnNumber: null });
+		const jsxDEV = () => new Error("react-stack-top-frame");
+		const source = getFiberSource({
+			_debugStack: jsxDEV(),
+		} as unknown as Fiber);
+		expect(source?.fileName).toContain("index-dom.test.tsx");
+		expect(source?.lineNumber).toBeGreaterThan(0);
+	});
+});
+
+describe("getComponentStack", () => {
+	it("should format the stack with resolved sources", () => {
+		const resolveSource = createSourceMapResolver({
+			"http://localhost:3000/main.js": {
+				version: 3,
+				sources: ["App.tsx"],
+				sourceRoot: "src",
+				mappings: "AAAA;IACE",
+			},
+		});
+		expect(
+			resolveSource({
+				fileName: "http://localhost:3000/main.js",
+				lineNumber: 2,
+				columnNumber: 1,
+			}),
+		).toBe(null);
+		const appFiber = {
+			tag: 0,
+			type: BasicComponent,
+			return: { tag: 3 },
+		} as unknown as Fiber;
+		const divFiber = {
+			tag: 5,
+			type: "div",
+			_debugSource: {
+				fileName: "http://localhost:3000/main.js?v=1",
+				lineNumber: 2,
+				columnNumber: 7,
+			},
+			return: appFiber,
+		} as unknown as Fiber;
+		expect(getComponentStack(divFiber, { resolveSource })).toBe(
+			"\n    in div (at src/App.tsx:2:3)\n    in BasicComponent",
+		);
+	});
+
+	it("should include host and composite fibers up to the root", () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(<BasicComponent />);
+		instrumentation.dispose();
+		const hostFiber = queryFiber(getRoot(), "BasicComponent > div") as Fiber;
+		expect(getComponentStack(hostFiber)).toBe(
+			"\n    in div\n    in BasicComponent",
+		);
+	});
+});
+
+describe("getFiberTagName", () => {
+	it("should resolve tags with the table of the given React version", () => {
+		const withTag = (tag: number) => ({ tag }) as unknown as Fiber;
+		expect(getFiberTagName(withTag(22), "19.0.0")).toBe("OffscreenComponent");
+		expect(getFiberTagName(withTag(22), "17.0.2")).toBe("Block");
+		expect(getFiberTagName(withTag(18), "16.14.0")).toBe(
+			"DehydratedSuspenseComponent",
+		);
+		expect(getFiberTagName(withTag(2), "16.4.0")).toBe("ClassComponent");
+		expect(getFiberTagName(withTag(99), "19.0.0")).toBe(null);
+	});
+
+	it("should resolve tags for the renderer that owns the fiber", () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(<BasicComponent />);
+		instrumentation.dispose();
+		const root = getRoot();
+		const rdtHook = getRDTHook();
+		rdtHook.renderers.set(99, { version: "17.0.2", bundleType: 1 });
+		expect(getFiberTagName(root.current)).toBe("HostRoot");
+		const hostFiber = queryFiber(root, ":host") as Fiber;
+		expect(getFiberTagName(hostFiber)).toBe("HostComponent");
+		expect(isHostFiber(hostFiber)).toBe(true);
+		rdtHook.renderers.delete(99);
+	});
+
+	it("should resolve tags again when a renderer is replaced", () => {
+		let committedRendererID = 0;
+		const { instrumentation, getRoot } = captureFiberRoot((rendererID) => {
+			committedRendererID = rendererID;
+		});
+		render(<BasicComponent />);
+		instrumentation.dispose();
+		const root = getRoot();
+		const fiber = { tag: 22, return: root.current } as unknown as Fiber;
+		expect(getFiberTagName(fiber)).toBe("OffscreenComponent");
+		const rdtHook = getRDTHook();
+		const renderer = rdtHook.renderers.get(committedRendererID);
+		rdtHook.renderers.set(committedRendererID, {
+			version: "17.0.2",
+			bundleType: 1,
+		});
+		expect(getFiberTagName(fiber)).toBe("Block");
+		if (renderer) rdtHook.renderers.set(committedRendererID, renderer);
+	});
+
+	it("should traverse and detect Suspense with a React 17 renderer", () => {
+		const createFiber = (tag: number, fields: Record<string, unknown> = {}) =>
+			({
+				tag,
+				key: null,
+				type: null,
+				stateNode: null,
+				return: null,
+				child: null,
+				sibling: null,
+				alternate: null,
+				flags: 0,
+				memoizedProps: {},
+				memoizedState: null,
+				...fields,
+			}) as unknown as Fiber;
+		const appendChildren = (parent: Fiber, ...children: Fiber[]) => {
+			parent.child = children[0] ?? null;
+			children.forEach((child, index) => {
+				child.return = parent;
+				child.sibling = children[index + 1] ?? null;
+			});
+			return parent;
+		};
+		const Item = () => null;
+		// React 17 numbers Offscreen 23, LegacyHidden 24 and DehydratedFragment 18
+		const hostRoot = createFiber(3);
+		const fiberRoot = { current: hostRoot } as unknown as FiberRoot;
+		hostRoot.stateNode = fiberRoot;
+		const item = createFiber(0, { type: Item });
+		const suspense = appendChildren(
+			createFiber(13),
+			appendChildren(createFiber(23), item),
+		);
+		const hiddenItem = createFiber(0, { type: Item });
+		const prevHidden = appendChildren(createFiber(24), hiddenItem);
+		const nextHidden = createFiber(24, {
+			memoizedState: {},
+			alternate: prevHidden,
+		});
+		const dehydratedFragment = createFiber(18);
+		appendChildren(nextHidden, hiddenItem);
+		appendChildren(hostRoot, suspense, nextHidden, dehydratedFragment);
+		prevHidden.return = hostRoot;
+
+		const rdtHook = getRDTHook();
+		rdtHook.renderers.set(99, { version: "17.0.2", bundleType: 1 });
+		registerFiberRoot(99, fiberRoot);
+
+		expect(getSuspenseBoundary(suspense)?.primary).toBe(item);
+		expect(getSuspenseBoundary(dehydratedFragment)).toBe(null);
+
+		const phases: Array<[Fiber, string]> = [];
+		const onRender: RenderHandler = (fiber, phase) => {
+			if (fiber.type === Item) phases.push([fiber, phase]);
+		};
+		mountFiberRecursively(onRender, suspense, true, true);
+		expect(phases).toEqual([
+			[item, "mount"],
+			[hiddenItem, "mount"],
+		]);
+		phases.length = 0;
+		updateFiberRecursively(onRender, nextHidden, prevHidden, hostRoot);
+		expect(phases).toEqual([[hiddenItem, "hide"]]);
+
+		unregisterFiberRoot(99, fiberRoot);
+		rdtHook.renderers.delete(99);
+	});
+});
+
+describe("getFlagNames", () => {
+	it("should decode bits with the tables of the given React version", () => {
+		expect(getFlagNames(0b100000000100, "19.0.0")).toEqual([
+			"Update",
+			"Passive",
+		]);
+		expect(getFlagNames(0b1000, "17.0.2")).toEqual(["Deletion"]);
+		expect(getLaneNames(0b10, "19.0.0")).toEqual(["SyncLane"]);
+		expect(getLaneNames(0b1 | 0b100000000, "18.3.1")).toEqual([
+			"SyncLane",
+			"TransitionLane3",
+		]);
+		expect(getModeNames(0b10011, "18.3.1")).toEqual([
+			"ConcurrentMode",
+			"ProfileMode",
+			"StrictEffectsMode",
+		]);
+		expect(getModeNames(0b100, "17.0.2")).toEqual(["ConcurrentMode"]);
+	});
+
+	it("should decode the bits of a fiber", () => {
+		const { instrumentation, getRoot } = captureFiberRoot();
+		render(<BasicComponent />);
+		instrumentation.dispose();
+		const fiber = getRoot().current;
+		const names = getFiberBitNames(fiber, React.version);
+		expect(names.mode).toContain("ConcurrentMode");
+		expect(names.subtreeFlags).toEqual(
+			getFlagNames(fiber.subtreeFlags, React.version),
+		);
+	});
+});
 describe("getType", () => {
 	it("should return the type of the forwardRef component", () => {
 		expect(getType(ForwardRefComponent)).toBe(BasicComponent);
@@ -15,6 +15,9 @@ import {
   isHostFiber,
   HostRootTag,
   HostTextTag,
+  getFiberBitNames,
+  type FiberBitNames,
+  getFiberAtPoint,
 } from './index.js';
 import React, {
   useState,
@@ -61,8 +64,10 @@ const FIBER_PROP_EXPLANATIONS: Record<string, string> = {
   memoizedState: 'State from the last render',
   dependencies: 'Context and other dependencies this fiber subscribes to',
   flags: 'Side-effects flags (e.g. needs update, deletion)',
+  subtreeFlags: 'Side-effects flags of the subtree',
   lanes: 'Priority lanes for updates',
   childLanes: 'Priority lanes for child updates',
+  mode: 'Mode bits inherited from the root (e.g. concurrent, strict)',
 };
 
 // biome-ignore lint/suspicious/noExplicitAny: OK
@@ -832,7 +837,16 @@ export const Inspector = React.memo(
       if (!isDialogMode) return;
 
       const explanation = FIBER_PROP_EXPLANATIONS[propName];
-      setTooltip(explanation || null);
+      const fiber = getFiberForDisplay();
+      const bitNames =
+        fiber && explanation
+          ? getFiberBitNames(fiber)[propName as keyof FiberBitNames]
+          : undefined;
+      setTooltip(
+        explanation && bitNames?.length
+          ? `${explanation}: ${bitNames.join(', ')}`
+          : explanation || null,
+      );
     };
 
     const handlePropertyLeave = () => {
@@ -921,13 +935,14 @@ export const Inspector = React.memo(
 
         // Don't update element if in dialog mode
         if (!isDialogMode) {
-          const element = document.elementFromPoint(
-            event.clientX,
-            event.clientY,
-          );
-          if (!element) return;
-          setElement(element);
-          setRect(element.getBoundingClientRect());
+          const match = getFiberAtPoint(event.clientX, event.clientY);
+          if (!match) {
+            setElement(null);
+            setRect(null);
+            return;
+          }
+          setElement(match.node);
+          setRect(match.node.getBoundingClientRect());
           setSelectedFiber(null);
         }
       };
@@ -1,4 +1,14 @@
-import type { ReactDevToolsGlobalHook, ReactRenderer } from './types.js';
+import type {
+  CommitSubscriber,
+  CommitSubscriberHandlers,
+  CommitSubscriberOptions,
+  CommitSubscription,
+  Fiber,
+  FiberRoot,
+  FiberRootListener,
+  ReactDevToolsGlobalHook,
+  ReactRenderer,
+} from './types.js';
 
 export const version = process.env.VERSION;
 export const BIPPY_INSTRUMENTATION_STRING = `bippy-${version}`;
@@ -58,6 +68,7 @@ export const installRDTHook = (onActive?: () => unknown) => {
     _instrumentationSource: BIPPY_INSTRUMENTATION_STRING,
     _instrumentationIsActive: false,
   };
+  installCommitSubscribers(rdtHook);
   try {
     Object.defineProperty(globalThis, '__REACT_DEVTOOLS_GLOBAL_HOOK__', {
       value: rdtHook,
@@ -80,10 +91,304 @@ export const patchRDTHook = (onActive?: () => unknown) => {
       rdtHook._instrumentationSource = BIPPY_INSTRUMENTATION_STRING;
       rdtHook._instrumentationIsActive = true;
     }
+    installCommitSubscribers(rdtHook);
   } catch {}
   onActive?.();
 };
 
+type CommitHandlerName = keyof CommitSubscriberHandlers;
+
+const dispatchToSubscribers = (
+  rdtHook: ReactDevToolsGlobalHook,
+  name: CommitHandlerName,
+  args: unknown[],
+) => {
+  const subscribers = rdtHook._commitSubscribers;
+  if (!subscribers?.length) return;
+  // copy so that subscribers can unsubscribe while being dispatched to
+  for (const subscriber of subscribers.slice()) {
+    const handler = subscriber[name] as
+      | ((...args: unknown[]) => unknown)
+      | undefined;
+    if (!subscriber.isEnabled || !handler) continue;
+    try {
+      if (subscriber.rendererFilter?.(args[0] as number) === false) continue;
+      handler(...args);
+    } catch (error) {
+      if (!subscriber.onError) {
+        // rethrow outside of the commit so the error isn't lost
+        setTimeout(() => {
+          throw error;
+        });
+        continue;
+      }
+      try {
+        subscriber.onError(error);
+      } catch {}
+    }
+  }
+};
+
+/**
+ * Replaces the commit handlers of the hook with dispatchers that call every
+ * subscriber registered with {@link subscribeToCommits}. Handlers that were
+ * already on the hook (e.g. React DevTools) are still called first.
+ */
+export const installCommitSubscribers = (rdtHook: ReactDevToolsGlobalHook) => {
+  if (rdtHook._commitSubscribers) return;
+  rdtHook._commitSubscribers = [];
+  rdtHook._fiberRoots ??= new Map();
+  rdtHook._fiberRootListeners ??= new Set();
+  rdtHook._pendingUnmounts ??= new Map();
+  rdtHook._committedUnmounts ??= new WeakMap();
+  const pendingUnmounts = rdtHook._pendingUnmounts;
+  const committedUnmounts = rdtHook._committedUnmounts;
+
+  const prevOnCommitFiberRoot = rdtHook.onCommitFiberRoot;
+  rdtHook.onCommitFiberRoot = (rendererID, root, priority) => {
+    prevOnCommitFiberRoot?.(rendererID, root, priority);
+    try {
+      const isUnmounting = root.current?.memoizedState?.element == null;
+      if (isUnmounting) {
+        unregisterFiberRoot(rendererID, root, rdtHook);
+      } else {
+        registerFiberRoot(rendererID, root, rdtHook);
+      }
+    } catch {}
+    committedUnmounts.set(root, pendingUnmounts.get(rendererID) ?? []);
+    pendingUnmounts.delete(rendererID);
+    dispatchToSubscribers(rdtHook, 'onCommitFiberRoot', [
+      rendererID,
+      root,
+      priority,
+    ]);
+    committedUnmounts.delete(root);
+  };
+
+  const prevOnCommitFiberUnmount = rdtHook.onCommitFiberUnmount;
+  rdtHook.onCommitFiberUnmount = (rendererID, fiber) => {
+    prevOnCommitFiberUnmount?.(rendererID, fiber);
+    let unmounts = pendingUnmounts.get(rendererID);
+    if (!unmounts) {
+      unmounts = [];
+      pendingUnmounts.set(rendererID, unmounts);
+    }
+    unmounts.push(fiber);
+    dispatchToSubscribers(rdtHook, 'onCommitFiberUnmount', [rendererID, fiber]);
+  };
+
+  const prevOnPostCommitFiberRoot = rdtHook.onPostCommitFiberRoot;
+  rdtHook.onPostCommitFiberRoot = (rendererID, root) => {
+    prevOnPostCommitFiberRoot?.(rendererID, root);
+    dispatchToSubscribers(rdtHook, 'onPostCommitFiberRoot', [rendererID, root]);
+  };
+};
+
+let subscriberId = 0;
+
+/**
+ * Subscribes to commits of every renderer attached to the hook.
+ *
+ * @example
+ * const subscription = subscribeToCommits({
+ *   priority: 10,
+ *   onCommitFiberRoot(rendererID, root) {
+ *     console.log('fiberRoot', root.current);
+ *   },
+ *   onError(error) {
+ *     console.error(error);
+ *   },
+ * });
+ *
+ * subscription.unsubscribe();
+ */
+export const subscribeToCommits = (
+  options: CommitSubscriberOptions,
+  rdtHook = getRDTHook(),
+): CommitSubscription => {
+  installCommitSubscribers(rdtHook);
+  const subscribers = rdtHook._commitSubscribers as CommitSubscriber[];
+  const subscriber: CommitSubscriber = {
+    id: subscriberId++,
+    name: options.name,
+    priority: options.priority ?? 0,
+    isEnabled: options.isEnabled ?? true,
+    onError: options.onError,
+    rendererFilter: options.rendererFilter,
+    onCommitFiberRoot: options.onCommitFiberRoot,
+    onCommitFiberUnmount: options.onCommitFiberUnmount,
+    onPostCommitFiberRoot: options.onPostCommitFiberRoot,
+  };
+
+  // keep subscribers sorted by priority, in subscription order for ties
+  let index = subscribers.length;
+  while (index > 0 && subscribers[index - 1].priority < subscriber.priority) {
+    index--;
+  }
+  subscribers.splice(index, 0, subscriber);
+
+  return {
+    id: subscriber.id,
+    unsubscribe: () => {
+      const index = subscribers.indexOf(subscriber);
+      if (index !== -1) subscribers.splice(index, 1);
+    },
+    enable: () => {
+      subscriber.isEnabled = true;
+    },
+    disable: () => {
+      subscriber.isEnabled = false;
+    },
+    isEnabled: () => subscriber.isEnabled,
+  };
+};
+
+/**
+ * Returns the subscribers registered on the hook, in the order they are called.
+ */
+export const getCommitSubscribers = (
+  rdtHook = getRDTHook(),
+): readonly CommitSubscriber[] => {
+  return rdtHook._commitSubscribers ?? [];
+};
+
+const emitFiberRootEvent = (
+  rdtHook: ReactDevToolsGlobalHook,
+  name: keyof FiberRootListener,
+  rendererID: number,
+  root: FiberRoot,
+) => {
+  if (!rdtHook._fiberRootListeners) return;
+  for (const listener of Array.from(rdtHook._fiberRootListeners)) {
+    try {
+      listener[name]?.(rendererID, root);
+    } catch {}
+  }
+};
+
+/**
+ * The renderer ID of roots that couldn't be attributed to a renderer, e.g. roots found by `discoverFiberRoots` when several renderers are attached. They move to their renderer's ID once they commit.
+ */
+export const UNKNOWN_RENDERER_ID = -1;
+
+const hasAttributedFiberRoot = (
+  rdtHook: ReactDevToolsGlobalHook,
+  root: FiberRoot,
+) => {
+  for (const [rendererID, roots] of rdtHook._fiberRoots ?? []) {
+    if (rendererID !== UNKNOWN_RENDERER_ID && roots.has(root)) return true;
+  }
+  return false;
+};
+
+/**
+ * Adds a root to the registry read by {@link getFiberRoots}. Roots are registered automatically when they commit.
+ */
+export const registerFiberRoot = (
+  rendererID: number,
+  root: FiberRoot,
+  rdtHook = getRDTHook(),
+) => {
+  if (rendererID === UNKNOWN_RENDERER_ID) {
+    if (hasAttributedFiberRoot(rdtHook, root)) return;
+  } else {
+    unregisterFiberRoot(UNKNOWN_RENDERER_ID, root, rdtHook);
+  }
+  rdtHook._fiberRoots ??= new Map();
+  let roots = rdtHook._fiberRoots.get(rendererID);
+  if (!roots) {
+    roots = new Set();
+    rdtHook._fiberRoots.set(rendererID, roots);
+  }
+  if (roots.has(root)) return;
+  roots.add(root);
+  emitFiberRootEvent(rdtHook, 'onRootAdded', rendererID, root);
+};
+
+/**
+ * Removes a root from the registry read by {@link getFiberRoots}. Roots are unregistered automatically when they unmount.
+ */
+export const unregisterFiberRoot = (
+  rendererID: number,
+  root: FiberRoot,
+  rdtHook = getRDTHook(),
+) => {
+  if (rendererID !== UNKNOWN_RENDERER_ID) {
+    unregisterFiberRoot(UNKNOWN_RENDERER_ID, root, rdtHook);
+  }
+  const roots = rdtHook._fiberRoots?.get(rendererID);
+  if (!roots?.delete(root)) return;
+  emitFiberRootEvent(rdtHook, 'onRootRemoved', rendererID, root);
+};
+
+/**
+ * Returns the mounted roots of a renderer, or of every renderer if no ID is passed.
+ *
+ * @example
+ * for (const root of getFiberRoots()) {
+ *   console.log(root.current);
+ * }
+ */
+export const getFiberRoots = (
+  rendererID?: number,
+  rdtHook = getRDTHook(),
+): FiberRoot[] => {
+  const roots = new Set<FiberRoot>();
+  const rendererIDs =
+    rendererID === undefined
+      ? new Set([
+          ...(rdtHook._fiberRoots?.keys() ?? []),
+          ...rdtHook.renderers.keys(),
+        ])
+      : [rendererID];
+  for (const id of rendererIDs) {
+    for (const root of rdtHook._fiberRoots?.get(id) ?? []) {
+      roots.add(root);
+    }
+    // React DevTools may have seen roots that committed before bippy
+    try {
+      for (const root of rdtHook.getFiberRoots?.(id) ?? []) {
+        roots.add(root);
+      }
+    } catch {}
+  }
+  return Array.from(roots);
+};
+
+/**
+ * Returns the fibers React reported to `onCommitFiberUnmount` for the commit of a root that is currently being dispatched.
+ */
+export const getCommittedUnmounts = (
+  root: FiberRoot,
+  rdtHook = getRDTHook(),
+): Fiber[] => rdtHook._committedUnmounts?.get(root) ?? [];
+
+/**
+ * Listens for roots being added to or removed from the registry. Returns a function that removes the listener.
+ *
+ * @example
+ * const unsubscribe = subscribeToFiberRoots({
+ *   onRootAdded(rendererID, root) {},
+ *   onRootRemoved(rendererID, root) {},
+ * });
+ */
+export const subscribeToFiberRoots = (
+  listener: FiberRootListener,
+  rdtHook = getRDTHook(),
+) => {
+  rdtHook._fiberRootListeners ??= new Set();
+  const listeners = rdtHook._fiberRootListeners;
+  // wrap so the same listener object can be subscribed more than once
+  const entry: FiberRootListener = {
+    onRootAdded: listener.onRootAdded,
+    onRootRemoved: listener.onRootRemoved,
+  };
+  listeners.add(entry);
+  return () => {
+    listeners.delete(entry);
+  };
+};
+
 export const hasRDTHook = () => {
   return Object.prototype.hasOwnProperty.call(
     globalThis,
@@ -84,6 +84,67 @@ export interface ReactDevToolsGlobalHook {
   inject: (renderer: ReactRenderer) => number;
   _instrumentationSource?: string;
   _instrumentationIsActive?: boolean;
+  _commitSubscribers?: CommitSubscriber[];
+  _fiberRoots?: Map<number, Set<FiberRoot>>;
+  _fiberRootListeners?: Set<FiberRootListener>;
+  // fibers reported to onCommitFiberUnmount, per renderer, until its next commit
+  _pendingUnmounts?: Map<number, Fiber[]>;
+  // the unmounts of each root while its commit is dispatched
+  _committedUnmounts?: WeakMap<FiberRoot, Fiber[]>;
+  // only exists on the real React DevTools hook
+  getFiberRoots?: (rendererID: number) => Set<FiberRoot>;
+}
+
+export interface FiberRootListener {
+  onRootAdded?: (rendererID: number, root: FiberRoot) => unknown;
+  onRootRemoved?: (rendererID: number, root: FiberRoot) => unknown;
+}
+
+export interface CommitSubscriberHandlers {
+  onCommitFiberRoot?: (
+    rendererID: number,
+    root: FiberRoot,
+    // biome-ignore lint/suspicious/noConfusingVoidType: may be undefined
+    priority: void | number,
+  ) => unknown;
+  onCommitFiberUnmount?: (rendererID: number, fiber: Fiber) => unknown;
+  onPostCommitFiberRoot?: (rendererID: number, root: FiberRoot) => unknown;
+}
+
+export interface CommitSubscriberOptions extends CommitSubscriberHandlers {
+  name?: string;
+  /**
+   * Subscribers with a higher priority are called first. Defaults to `0`.
+   */
+  priority?: number;
+  isEnabled?: boolean;
+  /**
+   * Called when one of the subscriber's handlers throws. The error never
+   * reaches React or other subscribers. Without it, the error is rethrown
+   * asynchronously.
+   */
+  onError?: (error: unknown) => unknown;
+  /**
+   * Return `false` to skip events from a renderer.
+   */
+  rendererFilter?: (rendererID: number) => boolean;
+}
+
+export interface CommitSubscriber extends CommitSubscriberHandlers {
+  id: number;
+  name: string | undefined;
+  priority: number;
+  isEnabled: boolean;
+  onError: ((error: unknown) => unknown) | undefined;
+  rendererFilter: ((rendererID: number) => boolean) | undefined;
+}
+
+export interface CommitSubscription {
+  id: number;
+  unsubscribe: () => void;
+  enable: () => void;
+  disable: () => void;
+  isEnabled: () => boolean;
 }
 
 /**
@@ -102,6 +163,8 @@ export type Fiber<T = any> = Omit<
   | 'pendingProps'
   | 'memoizedState'
   | 'updateQueue'
+  | 'deletions'
+  | '_debugOwner'
 > & {
   stateNode: T;
   dependencies: Dependencies | null;
@@ -109,6 +172,11 @@ export type Fiber<T = any> = Omit<
   sibling: Fiber | null;
   return: Fiber | null;
   alternate: Fiber | null;
+  deletions: Fiber[] | null;
+  // only in development builds, may be a server component in React 19
+  _debugOwner?: Fiber | null;
+  // only in React 19 development builds, replaces _debugSource
+  _debugStack?: Error | null;
   memoizedProps: Props;
   pendingProps: Props;
   memoizedState: MemoizedState;
@@ -122,6 +190,8 @@ export type Fiber<T = any> = Omit<
 export interface ReactRenderer {
   version: string;
   bundleType: 0 /* PROD */ | 1 /* DEV */;
+  rendererPackageName?: string;
+  reconcilerVersion?: string;
   findFiberByHostInstance?: (hostInstance: unknown) => Fiber | null;
 }
 